@@ -1,29 +1,176 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "react-toastify";
 import FloorForm, { type FloorInput } from "@/components/FloorForm";
-import generateLayout, {
+import {
+  generateLayoutAlternatives,
+  getPresetVersion,
   type LayoutResult,
+  type PlacedRoom,
+  STAIR_ID,
+  storeyView,
+  updateStoreyRooms,
   validateBeforeGenerate,
+  withLockedRooms,
 } from "@/utils/GenerateLayout";
 import Floor2DCanvas, { type Floor2DHandle } from "@/components/Floor2DCanvas";
+import LayoutThumbnail from "@/components/LayoutThumbnail";
+import HistoryPanel from "@/components/HistoryPanel";
+import ProjectToolbar from "@/components/ProjectToolbar";
+import ProjectLibrary from "@/components/ProjectLibrary";
+import { useHistory } from "@/hooks/useHistory";
+import { useAutosave } from "@/hooks/useAutosave";
+import { downloadText, safeFileName } from "@/utils/Download";
+import { layoutToSvg } from "@/utils/ExportSvg";
+import { layoutToDxf } from "@/utils/ExportDxf";
+import {
+  createProjectFile,
+  parseProjectFile,
+  type ProjectFile,
+  ProjectFileError,
+  readProject,
+  serializeProject,
+} from "@/utils/ProjectFile";
+import {
+  type AutosaveRecord,
+  clearAutosave,
+  deleteProject,
+  duplicateProject,
+  type LibraryProject,
+  listProjects,
+  newProjectId,
+  putProject,
+  readAutosave,
+  renameProject,
+  writeAutosave,
+} from "@/utils/ProjectLibrary";
+
+// Số phương án sinh ra cho mỗi lần "Tạo thiết kế"
+const ALTERNATIVE_COUNT = 4;
+
+// Trạng thái được ghi lịch sử: các phương án, phương án đang xem, độ dày
+// tường dùng khi tạo và dữ liệu form (chưa sửa gì thì để trống)
+type DesignState = {
+  alternatives: LayoutResult[];
+  activeIndex: number;
+  walls: { exteriorThickness: number; interiorThickness: number };
+  form?: FloorInput;
+};
+
+const INITIAL_STATE: DesignState = {
+  alternatives: [],
+  activeIndex: 0,
+  walls: { exteriorThickness: 0.2, interiorThickness: 0.1 },
+};
+
+// Thông tin dự án — không thuộc lịch sử thao tác. id: bản ghi trong thư
+// viện (chưa lưu vào thư viện thì để trống)
+type ProjectInfo = {
+  id?: string;
+  name: string;
+  client?: string;
+  createdAt?: string;
+};
+
+// Hiện lỗi đọc dự án kèm tối đa 5 trường sai đầu tiên
+const showProjectError = (error: unknown) => {
+  if (!(error instanceof ProjectFileError)) {
+    console.error("❌ Open project failed:", error);
+  }
+  const details =
+    error instanceof ProjectFileError ? error.details.slice(0, 5) : [];
+  toast.error(
+    [
+      error instanceof ProjectFileError
+        ? error.message
+        : "Không đọc được dự án!",
+      ...details.map((d) => `• ${d}`),
+    ].join("\n"),
+    { autoClose: 8000, style: { whiteSpace: "pre-line", maxWidth: "450px" } }
+  );
+};
+
+// Sửa phòng của phương án đang xem (một tầng) và dựng lại tường; update
+// trả lại đúng mảng cũ thì giữ nguyên trạng thái (không thêm bước lịch sử)
+const editActiveRooms = (
+  state: DesignState,
+  storey: number,
+  update: (rooms: PlacedRoom[]) => PlacedRoom[]
+): DesignState => {
+  const alt = state.alternatives[state.activeIndex];
+  if (!alt) return state;
+  const rooms = alt.storeys?.[storey]?.rooms ?? alt.rooms;
+  const next = update(rooms);
+  if (next === rooms) return state;
+  return {
+    ...state,
+    alternatives: state.alternatives.map((a, idx) =>
+      idx === state.activeIndex
+        ? updateStoreyRooms(a, storey, next, state.walls)
+        : a
+    ),
+  };
+};
 
 function DesignPage() {
-  const [layout, setLayout] = useState<LayoutResult | null>(null);
+  const history = useHistory<DesignState>(INITIAL_STATE);
+  const { alternatives, activeIndex, walls: wallConfig } = history.state;
+  const layout = alternatives[activeIndex] ?? null;
+  const { push, replace, undo, redo } = history;
   const [isGenerating, setIsGenerating] = useState(false);
+  const [project, setProject] = useState<ProjectInfo>({
+    name: "Dự án mới",
+  });
+  const [library, setLibrary] = useState<LibraryProject[]>([]);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  // Bản tự lưu của phiên trước (trang bị tải lại / đóng đột ngột)
+  const [recovery, setRecovery] = useState<AutosaveRecord | null>(null);
   const canvasRef = useRef<Floor2DHandle>(null);
 
-  // ✅ NEW: lưu độ dày tường để truyền xuống Canvas
-  const [wallConfig, setWallConfig] = useState<{
-    exteriorThickness: number;
-    interiorThickness: number;
-  }>({
-    exteriorThickness: 0.2,
-    interiorThickness: 0.1,
-  });
+  // Form giữ trạng thái riêng: khi hoàn tác/làm lại tới dữ liệu form khác
+  // với dữ liệu form đang có thì dựng lại form từ dữ liệu đó
+  const [formKey, setFormKey] = useState(0);
+  const formSyncRef = useRef<FloorInput | undefined>(undefined);
+  useEffect(() => {
+    if (history.state.form === formSyncRef.current) return;
+    formSyncRef.current = history.state.form;
+    setFormKey((k) => k + 1);
+  }, [history.state.form]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (hoặc Ctrl+Y); trong ô nhập giữ hoàn tác chữ
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (
+        (e.target as HTMLElement | null)?.closest("input, textarea, select")
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === "z" || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+
+  const handleInputChange = useCallback(
+    (input: FloorInput, label: string, coalesce?: string) => {
+      formSyncRef.current = input;
+      push(label, (prev) => ({ ...prev, form: input }), coalesce);
+    },
+    [push]
+  );
 
-  const handleSubmit = async (data: FloorInput) => {
+  const handleSubmit = async (formData: FloorInput) => {
+    // Giữ nguyên các phòng đã khoá của phương án đang xem
+    const data = layout ? withLockedRooms(formData, layout) : formData;
     setIsGenerating(true);
     try {
       const validation = await validateBeforeGenerate(data);
@@ -44,13 +191,21 @@ function DesignPage() {
         return;
       }
 
-      setWallConfig({
-        exteriorThickness: data.walls.exteriorThickness,
-        interiorThickness: data.walls.interiorThickness,
-      });
-
-      const out = await generateLayout(data, true);
-      setLayout(out);
+      const out = await generateLayoutAlternatives(
+        data,
+        ALTERNATIVE_COUNT,
+        true
+      );
+      formSyncRef.current = formData;
+      push("Tạo thiết kế", () => ({
+        alternatives: out,
+        activeIndex: 0,
+        walls: {
+          exteriorThickness: data.walls.exteriorThickness,
+          interiorThickness: data.walls.interiorThickness,
+        },
+        form: formData,
+      }));
     } catch (error) {
       console.error("❌ Generation failed:", error);
       toast.error("Có lỗi xảy ra khi tạo thiết kế!");
@@ -59,23 +214,333 @@ function DesignPage() {
     }
   };
 
+  const roomOf = (id: string, storey: number) =>
+    layout && storeyView(layout, storey).rooms.find((r) => r.id === id);
+
+  // Một lần kéo có thể sửa nhiều phòng (chế độ đẩy) — gộp thành một bước
+  // theo mã lần kéo (không giới hạn thời gian); hai lần kéo liền nhau vẫn là
+  // hai bước
   const handleRoomEdit = (
     id: string,
-    patch: { x?: number; y?: number; w?: number; h?: number }
+    patch: { x?: number; y?: number; w?: number; h?: number },
+    storey: number,
+    gesture: number
   ) => {
-    setLayout((prev) => {
-      if (!prev) return prev;
-      const rooms = prev.rooms.map((r) =>
-        r.id === id ? { ...r, ...patch } : r
+    const room = roomOf(id, storey);
+    const resized =
+      (patch.w !== undefined && patch.w !== room?.w) ||
+      (patch.h !== undefined && patch.h !== room?.h);
+    push(
+      `${resized ? "Đổi kích thước" : "Di chuyển"} ${room?.label ?? "phòng"}`,
+      // Tường chung thay đổi theo vị trí phòng nên dựng lại đồ thị tường
+      (prev) =>
+        editActiveRooms(prev, storey, (rooms) =>
+          rooms.some(
+            (r) =>
+              r.id === id &&
+              (Object.keys(patch) as Array<keyof typeof patch>).some(
+                (k) => patch[k] !== r[k]
+              )
+          )
+            ? rooms.map((r) => (r.id === id ? { ...r, ...patch } : r))
+            : rooms
+        ),
+      `canvas-edit:${gesture}`,
+      Infinity
+    );
+  };
+
+  // Khoá/mở khoá một phòng; cầu thang vốn đã cố định
+  const handleRoomLock = (id: string, storey: number) => {
+    if (id === STAIR_ID) return;
+    const room = roomOf(id, storey);
+    push(
+      `${room?.locked ? "Mở khoá" : "Khoá"} ${room?.label ?? "phòng"}`,
+      (prev) =>
+        editActiveRooms(prev, storey, (rooms) =>
+          rooms.map((r) => (r.id === id ? { ...r, locked: !r.locked } : r))
+        )
+    );
+  };
+
+  const refreshLibrary = useCallback(
+    () =>
+      listProjects()
+        .then(setLibrary)
+        .catch((error) =>
+          console.error("❌ Project library unavailable:", error)
+        ),
+    []
+  );
+
+  useEffect(() => {
+    refreshLibrary();
+    readAutosave()
+      .then((record) => setRecovery(record ?? null))
+      .catch((error) => console.error("❌ Read autosave failed:", error));
+  }, [refreshLibrary]);
+
+  // Tự lưu form + phương án đang xem vào ô tự lưu; dự án đã có trong thư
+  // viện thì cập nhật luôn bản ghi thư viện
+  const autosaveValue = useMemo(
+    () => ({ state: history.state, project }),
+    [history.state, project]
+  );
+  useAutosave(autosaveValue, async ({ state, project }) => {
+    if (!state.form) return;
+    const file = createProjectFile(
+      state.form,
+      state.alternatives[state.activeIndex],
+      project,
+      await getPresetVersion()
+    );
+    await writeAutosave({
+      projectId: project.id,
+      savedAt: file.metadata.updatedAt,
+      file,
+    });
+    if (project.id) {
+      await putProject({ id: project.id, file });
+      await refreshLibrary();
+    }
+  });
+
+  const buildProjectFile = async () => {
+    const input = history.state.form;
+    if (!input) {
+      toast.warn("Chưa có dữ liệu để lưu — hãy nhập thông tin sàn trước");
+      return null;
+    }
+    const file = createProjectFile(
+      input,
+      layout,
+      project,
+      await getPresetVersion()
+    );
+    setProject((prev) => ({ ...prev, createdAt: file.metadata.createdAt }));
+    return file;
+  };
+
+  const handleSaveProject = async () => {
+    const file = await buildProjectFile();
+    if (!file) return;
+    downloadText(
+      safeFileName(file.metadata.name, "json"),
+      serializeProject(file),
+      "application/json"
+    );
+  };
+
+  const handleSaveToLibrary = async () => {
+    const file = await buildProjectFile();
+    if (!file) return;
+    const id = project.id ?? newProjectId();
+    try {
+      await putProject({ id, file });
+      setProject((prev) => ({ ...prev, id }));
+      await refreshLibrary();
+      toast.success(`Đã lưu “${file.metadata.name}” vào thư viện`);
+    } catch (error) {
+      console.error("❌ Save to library failed:", error);
+      toast.error("Không lưu được vào thư viện của trình duyệt!");
+    }
+  };
+
+  // Mở một dự án: form và phương án đang xem thay bằng dữ liệu đã lưu
+  // (một bước lịch sử, hoàn tác được)
+  const openProject = (
+    opened: ProjectFile,
+    warnings: string[],
+    label: string,
+    id?: string
+  ) => {
+    const { input, layout: saved, metadata } = opened;
+    push(label, () => ({
+      alternatives: saved ? [saved] : [],
+      activeIndex: 0,
+      walls: {
+        exteriorThickness: input.walls.exteriorThickness,
+        interiorThickness: input.walls.interiorThickness,
+      },
+      form: input,
+    }));
+    setProject({
+      id,
+      name: metadata.name,
+      client: metadata.client,
+      createdAt: metadata.createdAt,
+    });
+    warnings.forEach((w) => toast.warn(w));
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+      const { project: opened, warnings } = parseProjectFile(
+        await file.text(),
+        await getPresetVersion()
+      );
+      openProject(opened, warnings, `Mở dự án ${opened.metadata.name}`);
+    } catch (error) {
+      showProjectError(error);
+    }
+  };
+
+  // Bản ghi trong thư viện cũng qua kiểm tra + nâng cấp như tệp
+  const handleOpenLibraryEntry = async (entry: LibraryProject) => {
+    try {
+      const { project: opened, warnings } = readProject(
+        entry.file,
+        await getPresetVersion()
+      );
+      openProject(
+        opened,
+        warnings,
+        `Mở dự án ${opened.metadata.name}`,
+        entry.id
       );
-      return { ...prev, rooms };
+    } catch (error) {
+      showProjectError(error);
+    }
+  };
+
+  const handleRecover = async () => {
+    if (!recovery) return;
+    try {
+      const { project: opened, warnings } = readProject(
+        recovery.file,
+        await getPresetVersion()
+      );
+      openProject(opened, warnings, "Khôi phục bản tự lưu", recovery.projectId);
+    } catch (error) {
+      showProjectError(error);
+    }
+    setRecovery(null);
+  };
+
+  const dismissRecovery = () => {
+    setRecovery(null);
+    clearAutosave().catch((error) =>
+      console.error("❌ Clear autosave failed:", error)
+    );
+  };
+
+  // Thao tác thư viện lỗi (IndexedDB bị chặn, hết dung lượng...) chỉ báo lỗi
+  const libraryAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error("❌ Project library failed:", error);
+      toast.error("Thao tác với thư viện dự án thất bại!");
+    }
+    await refreshLibrary();
+  };
+
+  const handleRenameEntry = (id: string, name: string) =>
+    libraryAction(async () => {
+      await renameProject(id, name);
+      if (id === project.id) setProject((prev) => ({ ...prev, name }));
     });
+
+  const handleDuplicateEntry = (id: string) =>
+    libraryAction(() => duplicateProject(id));
+
+  // Xoá dự án đang mở: vẫn giữ dữ liệu trên trang, chỉ bỏ liên kết thư viện
+  const handleDeleteEntry = (id: string) =>
+    libraryAction(async () => {
+      await deleteProject(id);
+      if (id === project.id) setProject((prev) => ({ ...prev, id: undefined }));
+    });
+
+  // Bản vẽ vector của phương án đang xem (mọi tầng)
+  const handleExportSvg = () => {
+    if (!layout) return;
+    downloadText(
+      safeFileName(project.name, "svg"),
+      layoutToSvg(layout, { ...wallConfig, title: project.name }),
+      "image/svg+xml"
+    );
+  };
+
+  // Bản vẽ CAD (DXF R12, đơn vị mét) của phương án đang xem
+  const handleExportDxf = () => {
+    if (!layout) return;
+    downloadText(
+      safeFileName(project.name, "dxf"),
+      layoutToDxf(layout, { ...wallConfig, title: project.name }),
+      "application/dxf"
+    );
+  };
+
+  // Chọn phương án không phải một bước sửa — chỉ cập nhật bước hiện tại
+  const selectAlternative = (index: number) =>
+    replace((prev) => ({ ...prev, activeIndex: index }));
+
+  const flip = (delta: number) => {
+    if (!alternatives.length) return;
+    selectAlternative(
+      (activeIndex + delta + alternatives.length) % alternatives.length
+    );
   };
 
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="mx-auto max-w-7xl p-6">
-        <FloorForm onSubmit={handleSubmit} canvasRef={canvasRef} />
+        {recovery && (
+          <div className="mb-6 flex flex-wrap items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            <span className="flex-1">
+              Có bản tự lưu “{recovery.file.metadata.name}” lúc{" "}
+              {new Date(recovery.savedAt).toLocaleString("vi-VN")} từ phiên làm
+              việc trước — khôi phục?
+            </span>
+            <button
+              type="button"
+              onClick={handleRecover}
+              className="rounded-lg bg-amber-600 px-3 py-1.5 text-white hover:cursor-pointer hover:bg-amber-700"
+            >
+              Khôi phục
+            </button>
+            <button
+              type="button"
+              onClick={dismissRecovery}
+              className="rounded-lg border border-amber-300 px-3 py-1.5 hover:cursor-pointer hover:bg-amber-100"
+            >
+              Bỏ qua
+            </button>
+          </div>
+        )}
+
+        <ProjectToolbar
+          name={project.name}
+          client={project.client ?? ""}
+          onNameChange={(name) => setProject((prev) => ({ ...prev, name }))}
+          onClientChange={(client) =>
+            setProject((prev) => ({ ...prev, client }))
+          }
+          onSave={handleSaveProject}
+          onOpen={handleOpenProject}
+          onSaveToLibrary={handleSaveToLibrary}
+          libraryOpen={libraryOpen}
+          onToggleLibrary={() => setLibraryOpen((open) => !open)}
+        />
+
+        {libraryOpen && (
+          <ProjectLibrary
+            entries={library}
+            activeId={project.id}
+            onOpen={handleOpenLibraryEntry}
+            onRename={handleRenameEntry}
+            onDuplicate={handleDuplicateEntry}
+            onDelete={handleDeleteEntry}
+          />
+        )}
+
+        <FloorForm
+          key={formKey}
+          onSubmit={handleSubmit}
+          canvasRef={canvasRef}
+          initialInput={history.state.form}
+          onInputChange={handleInputChange}
+        />
 
         {isGenerating && (
           <div className="mt-6 rounded-lg border shadow bg-white p-6 text-center">
@@ -86,12 +551,105 @@ function DesignPage() {
           </div>
         )}
 
+        {alternatives.length > 1 && !isGenerating && (
+          <div className="mt-6 rounded-lg border shadow bg-white p-4">
+            <div className="mb-3 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Các phương án
+                </h2>
+                {layout?.seed !== undefined && (
+                  <p className="text-xs text-gray-500">
+                    Seed {layout.seed} — nhập lại seed này để tạo đúng các
+                    phương án này
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 text-sm text-gray-700">
+                <button
+                  type="button"
+                  onClick={() => flip(-1)}
+                  className="rounded-lg border border-gray-300 px-3 py-1.5 hover:cursor-pointer hover:bg-gray-100"
+                >
+                  ‹ Trước
+                </button>
+                <span>
+                  {activeIndex + 1}/{alternatives.length}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => flip(1)}
+                  className="rounded-lg border border-gray-300 px-3 py-1.5 hover:cursor-pointer hover:bg-gray-100"
+                >
+                  Sau ›
+                </button>
+              </div>
+            </div>
+            <div className="flex gap-3 overflow-x-auto pb-1">
+              {alternatives.map((alt, idx) => (
+                <LayoutThumbnail
+                  key={idx}
+                  layout={alt}
+                  index={idx}
+                  active={idx === activeIndex}
+                  onSelect={() => selectAlternative(idx)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {history.entries.length > 1 && (
+          <div className="mt-6">
+            <HistoryPanel
+              entries={history.entries}
+              index={history.index}
+              canUndo={history.canUndo}
+              canRedo={history.canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onJump={history.jumpTo}
+            />
+          </div>
+        )}
+
+        {layout && !isGenerating && layout.warnings.length > 0 && (
+          <div className="mt-6 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            <ul className="list-disc space-y-1 pl-5">
+              {layout.warnings.map((w, idx) => (
+                <li key={idx}>{w}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {layout && !isGenerating && (
+          <div className="mt-6 flex items-center justify-end gap-2 text-sm text-gray-700">
+            <span>Xuất bản vẽ:</span>
+            <button
+              type="button"
+              onClick={handleExportSvg}
+              className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 hover:cursor-pointer hover:bg-gray-100"
+            >
+              🖼️ SVG
+            </button>
+            <button
+              type="button"
+              onClick={handleExportDxf}
+              className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 hover:cursor-pointer hover:bg-gray-100"
+            >
+              📐 DXF
+            </button>
+          </div>
+        )}
+
         {layout && !isGenerating && (
-          <div className="mt-6 rounded-lg border shadow bg-white">
+          <div className="mt-3 rounded-lg border shadow bg-white">
             <Floor2DCanvas
               ref={canvasRef}
               layout={layout}
               onRoomEdit={handleRoomEdit}
+              onRoomLock={handleRoomLock}
               showWalls={true}
               exteriorWallThickness={wallConfig.exteriorThickness}
               interiorWallThickness={wallConfig.interiorThickness}
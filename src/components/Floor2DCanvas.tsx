@@ -6,9 +6,34 @@ import {
   forwardRef,
   useImperativeHandle,
   useCallback,
+  useMemo,
+  useState,
 } from "react";
 import * as THREE from "three";
-import type { LayoutResult } from "@/utils/GenerateLayout";
+import {
+  layoutWallGraph,
+  STAIR_ID,
+  storeyView,
+  type LayoutResult,
+} from "@/utils/GenerateLayout";
+import { wallPieces, type WallGraph } from "@/utils/WallGraph";
+import {
+  blockedMove,
+  collidesWith,
+  insideBounds,
+  overlappingRoomIds,
+  pushRooms,
+  type CollisionBounds,
+  type CollisionMode,
+  type CollisionRoom,
+} from "@/utils/RoomCollision";
+import { insetPolygon, type Point } from "@/utils/FloorOutline";
+import {
+  alignmentGuides,
+  neighbourDistances,
+  snapEdge,
+  snapToRooms,
+} from "@/utils/RoomSnap";
 import RoomTooltip from "./RoomTooltip";
 import { useRoomTooltip } from "@/hooks/useRoomTooltip";
 
@@ -22,11 +47,18 @@ type Handle = "MOVE" | "N" | "E" | "S" | "W" | "NE" | "NW" | "SE" | "SW";
 type Side = "N" | "E" | "S" | "W";
 
 interface Props {
+  // Nhà nhiều tầng: canvas có thanh chọn tầng, mỗi lần hiển thị một tầng
   layout: LayoutResult;
+  // storey: chỉ số tầng đang hiển thị (0 là tầng 1); gesture: mã lần kéo —
+  // phòng đang kéo và các phòng nó đẩy trong cùng một lần kéo chung một mã
   onRoomEdit?: (
     id: string,
-    patch: { x?: number; y?: number; w?: number; h?: number }
+    patch: { x?: number; y?: number; w?: number; h?: number },
+    storey: number,
+    gesture: number
   ) => void;
+  // Nhấp đúp vào phòng để khoá/mở khoá vị trí
+  onRoomLock?: (id: string, storey: number) => void;
   height?: number | string;
   showWalls?: boolean;
   exteriorWallThickness?: number;
@@ -45,12 +77,6 @@ interface DoorSpec {
   offsetRatio: number;
 }
 
-interface WallConfig {
-  geometry: THREE.PlaneGeometry;
-  position: THREE.Vector3;
-  side: Side;
-}
-
 interface RoomData {
   id: string;
   label: string;
@@ -58,13 +84,25 @@ interface RoomData {
 }
 
 const Z_STEP = 0.0005;
+const COLLISION_COLOR = "#f87171";
+const GUIDE_COLOR = 0xdb2777;
+const DISTANCE_COLOR = 0x2563eb;
+// Khoảng hút vào cạnh/tâm phòng khác, tính theo điểm ảnh trên màn hình
+const SNAP_PX = 8;
+
+const COLLISION_MODES: Array<{ mode: CollisionMode; label: string }> = [
+  { mode: "block", label: "🚫 Chặn" },
+  { mode: "push", label: "↔️ Đẩy" },
+  { mode: "highlight", label: "⚠️ Cho chồng" },
+];
 const Z_BASE = 0.01;
 
 const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
   (
     {
-      layout,
+      layout: building,
       onRoomEdit,
+      onRoomLock,
       height = "70vh",
       showWalls = true,
       exteriorWallThickness = 0.2,
@@ -73,11 +111,32 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
     ref
   ) => {
     const wrapRef = useRef<HTMLDivElement | null>(null);
+    const storeys = building.storeys ?? [];
+    const [storeyIndex, setStoreyIndex] = useState(0);
+    // Bố cục mới có ít tầng hơn thì quay về tầng 1
+    const activeStorey = storeyIndex < storeys.length ? storeyIndex : 0;
+    const storeyIndexRef = useRef(activeStorey);
+    storeyIndexRef.current = activeStorey;
+    // Sự kiện chuột chỉ gắn một lần — đọc callback mới nhất qua ref
+    const onRoomEditRef = useRef(onRoomEdit);
+    onRoomEditRef.current = onRoomEdit;
+    const onRoomLockRef = useRef(onRoomLock);
+    onRoomLockRef.current = onRoomLock;
+    const [collisionMode, setCollisionMode] = useState<CollisionMode>("block");
+    const collisionModeRef = useRef(collisionMode);
+    collisionModeRef.current = collisionMode;
+    const layout = useMemo(
+      () => storeyView(building, activeStorey),
+      [building, activeStorey]
+    );
 
     const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
     const sceneRef = useRef<THREE.Scene | null>(null);
     const cameraRef = useRef<THREE.OrthographicCamera | null>(null);
     const contentRef = useRef<THREE.Group | null>(null);
+    const wallsRef = useRef<THREE.Group | null>(null);
+    // Đường gióng và số đo khoảng cách khi kéo phòng
+    const guidesRef = useRef<THREE.Group | null>(null);
     const previousLayoutRef = useRef<LayoutResult | null>(null);
     const isRoomEditRef = useRef(false);
 
@@ -85,6 +144,8 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
       Array<{ id: string; mesh: THREE.Mesh; w: number; h: number }>
     >([]);
     const floorSizeRef = useRef({ w: 0, h: 0 });
+    // Đường bao sàn đa giác đã trừ tường ngoài (sàn chữ nhật: không có)
+    const usableOutlineRef = useRef<Point[] | undefined>(undefined);
 
     const zStackRef = useRef<string[]>([]);
     const zIndexMapRef = useRef<Map<string, number>>(new Map());
@@ -106,6 +167,10 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
     const dragModeRef = useRef<Handle>("MOVE");
     const anchorRef = useRef<{ x: number; y: number } | null>(null);
     const startSizeRef = useRef<{ w: number; h: number } | null>(null);
+    // Vị trí các phòng lúc bắt đầu kéo: chế độ đẩy luôn tính lại từ đây,
+    // thả chuột thì so với đây để biết phòng nào đã đổi
+    const dragStartRef = useRef<CollisionRoom[]>([]);
+    const gestureRef = useRef(0);
 
     const camScaleRef = useRef(50);
     const autoFitRef = useRef(true);
@@ -129,228 +194,245 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
     const INTERIOR_WALL_COLOR = 0x8b8b8b;
     const EXTERIOR_WALL_COLOR = 0x4a4a4a;
 
-    const createExteriorWalls = (floorW: number, floorH: number) => {
-      const walls: THREE.Mesh[] = [];
-      const wallMaterial = new THREE.MeshBasicMaterial({
-        color: EXTERIOR_WALL_COLOR,
-        side: THREE.DoubleSide,
-      });
-
-      const halfW = floorW / 2;
-      const halfH = floorH / 2;
-      const t = EXTERIOR_WALL_THICKNESS;
-
-      const topWall = new THREE.Mesh(
-        new THREE.PlaneGeometry(floorW, t),
-        wallMaterial
-      );
-      topWall.position.set(0, halfH - t / 2, 5);
-      topWall.userData.isExteriorWall = true;
-      walls.push(topWall);
-
-      const bottomWall = new THREE.Mesh(
-        new THREE.PlaneGeometry(floorW, t),
-        wallMaterial
-      );
-      bottomWall.position.set(0, -halfH + t / 2, 5);
-      bottomWall.userData.isExteriorWall = true;
-      walls.push(bottomWall);
-
-      const leftWall = new THREE.Mesh(
-        new THREE.PlaneGeometry(t, floorH - 2 * t),
-        wallMaterial
-      );
-      leftWall.position.set(-halfW + t / 2, 0, 5);
-      leftWall.userData.isExteriorWall = true;
-      walls.push(leftWall);
-
-      const rightWall = new THREE.Mesh(
-        new THREE.PlaneGeometry(t, floorH - 2 * t),
-        wallMaterial
-      );
-      rightWall.position.set(halfW - t / 2, 0, 5);
-      rightWall.userData.isExteriorWall = true;
-      walls.push(rightWall);
+    // Vẽ tường từ đồ thị tường: mỗi đoạn tường chỉ vẽ một lần, đã trừ ô cửa
+    const renderWalls = (graph: WallGraph) => {
+      const group = wallsRef.current;
+      if (!group) return;
+      while (group.children.length) {
+        const c = group.children.pop()!;
+        disposeObject(c);
+      }
 
-      return walls;
+      for (const segment of graph.segments) {
+        const exterior = segment.kind === "exterior";
+        const material = new THREE.MeshBasicMaterial({
+          color: exterior ? EXTERIOR_WALL_COLOR : INTERIOR_WALL_COLOR,
+          side: THREE.DoubleSide,
+        });
+        for (const piece of wallPieces(segment)) {
+          const wall = new THREE.Mesh(
+            new THREE.PlaneGeometry(
+              Math.hypot(piece.x2 - piece.x1, piece.y2 - piece.y1),
+              piece.thickness
+            ),
+            material
+          );
+          wall.position.set(
+            (piece.x1 + piece.x2) / 2,
+            (piece.y1 + piece.y2) / 2,
+            exterior ? 5 : 4
+          );
+          wall.rotation.z = Math.atan2(
+            piece.y2 - piece.y1,
+            piece.x2 - piece.x1
+          );
+          wall.userData.wallId = segment.id;
+          wall.raycast = () => {};
+          group.add(wall);
+        }
+      }
     };
 
-    // ✅ Fixed createRoomWalls with proper typing
-    const createRoomWalls = (
-      roomMesh: THREE.Mesh,
-      roomW: number,
-      roomH: number,
-      roomId: string,
-      doors?: DoorSpec[]
-    ) => {
-      const walls: THREE.Mesh[] = [];
-      const wallMaterial = new THREE.MeshBasicMaterial({
-        color: INTERIOR_WALL_COLOR,
-        side: THREE.DoubleSide,
+    // Dựng lại đồ thị tường theo vị trí hiện tại của các phòng (khi kéo thả)
+    const rebuildWalls = () => {
+      const current = previousLayoutRef.current;
+      if (!showWalls || !current) return;
+      const rooms = current.rooms.map((room) => {
+        const r = roomsRef.current.find((x) => x.id === room.id);
+        return r
+          ? {
+              ...room,
+              x: r.mesh.position.x,
+              y: r.mesh.position.y,
+              w: r.w,
+              h: r.h,
+            }
+          : room;
       });
+      renderWalls(
+        layoutWallGraph(current, rooms, {
+          exteriorThickness: EXTERIOR_WALL_THICKNESS,
+          interiorThickness: INTERIOR_WALL_THICKNESS,
+        })
+      );
+    };
 
-      const halfW = roomW / 2;
-      const halfH = roomH / 2;
-      const thickness = INTERIOR_WALL_THICKNESS;
-
-      const wallConfigs: WallConfig[] = [
-        {
-          geometry: new THREE.PlaneGeometry(roomW + 2 * thickness, thickness),
-          position: new THREE.Vector3(0, halfH + thickness / 2, 0.0003),
-          side: "N" as Side,
-        },
-        {
-          geometry: new THREE.PlaneGeometry(roomW + 2 * thickness, thickness),
-          position: new THREE.Vector3(0, -halfH - thickness / 2, 0.0003),
-          side: "S" as Side,
-        },
-        {
-          geometry: new THREE.PlaneGeometry(thickness, roomH),
-          position: new THREE.Vector3(-halfW - thickness / 2, 0, 0.0003),
-          side: "W" as Side,
-        },
-        {
-          geometry: new THREE.PlaneGeometry(thickness, roomH),
-          position: new THREE.Vector3(halfW + thickness / 2, 0, 0.0003),
-          side: "E" as Side,
-        },
-      ];
+    const roomRects = (): CollisionRoom[] =>
+      roomsRef.current.map((r) => ({
+        id: r.id,
+        x: r.mesh.position.x,
+        y: r.mesh.position.y,
+        w: r.w,
+        h: r.h,
+      }));
+
+    // Tô đỏ các phòng đang chồng lên nhau
+    const markCollisions = () => {
+      const ids = overlappingRoomIds(roomRects());
+      for (const r of roomsRef.current) {
+        (r.mesh.material as THREE.MeshBasicMaterial).color.set(
+          ids.has(r.id) ? COLLISION_COLOR : r.mesh.userData.color
+        );
+      }
+    };
 
-      for (const config of wallConfigs) {
-        const hasDoor = doors?.some((door) => door.side === config.side);
+    // Vùng phòng được phép nằm khi kéo/đổi kích thước
+    const floorBounds = (): CollisionBounds => ({
+      halfW: floorSizeRef.current.w / 2 - EXTERIOR_WALL_THICKNESS,
+      halfH: floorSizeRef.current.h / 2 - EXTERIOR_WALL_THICKNESS,
+      outline: usableOutlineRef.current,
+    });
+
+    // Áp chế độ va chạm cho chỗ mới của phòng đang kéo/đổi kích thước: trả
+    // về tâm phòng được phép, null khi phải giữ nguyên. slide: khi bị chặn
+    // được trượt theo một trục (chỉ khi di chuyển). Mọi chế độ đều giữ
+    // phòng trong sàn (kể cả phần lõm của sàn đa giác)
+    const resolveCollision = (
+      moving: CollisionRoom,
+      mesh: THREE.Mesh,
+      slide: boolean
+    ): { x: number; y: number } | null => {
+      const mode = collisionModeRef.current;
+      const bounds = floorBounds();
+      const previous = { x: mesh.position.x, y: mesh.position.y };
+      if (mode === "highlight") {
+        if (slide) return blockedMove(moving, previous, [], 0, bounds);
+        return insideBounds(moving, bounds) ? moving : null;
+      }
 
-        if (!hasDoor) {
-          const wall = new THREE.Mesh(config.geometry, wallMaterial);
-          wall.position.copy(config.position);
-          wall.userData.isRoomWall = true;
-          wall.userData.roomId = roomId;
-          wall.userData.side = config.side;
-          wall.raycast = () => {};
-          roomMesh.add(wall);
-          walls.push(wall);
-        } else {
-          const door = doors!.find((d) => d.side === config.side);
-          if (door) {
-            const wallSegments = createWallWithDoorOpening(
-              config,
-              door,
-              roomW,
-              roomH,
-              wallMaterial,
-              roomId
-            );
-            wallSegments.forEach((segment) => {
-              roomMesh.add(segment);
-              walls.push(segment);
-            });
+      if (mode === "push" && insideBounds(moving, bounds)) {
+        const start = dragStartRef.current.filter((o) => o.id !== moving.id);
+        const pushed = pushRooms(moving, start, bounds, {
+          gap: INTERIOR_WALL_THICKNESS,
+          fixedIds: new Set(
+            roomsRef.current
+              .filter((r) => r.mesh.userData.fixed)
+              .map((r) => r.id)
+          ),
+        });
+        if (pushed) {
+          for (const o of start) {
+            const room = roomsRef.current.find((r) => r.id === o.id);
+            const to = pushed.get(o.id) ?? o;
+            room?.mesh.position.set(to.x, to.y, room.mesh.position.z);
           }
+          return moving;
         }
+        // Không đẩy được (vướng phòng cố định hay tường ngoài) thì chặn
       }
 
-      return walls;
+      const others = roomRects().filter((o) => o.id !== moving.id);
+      if (slide) {
+        return blockedMove(
+          moving,
+          previous,
+          others,
+          INTERIOR_WALL_THICKNESS,
+          bounds
+        );
+      }
+      return insideBounds(moving, bounds) &&
+        !collidesWith(moving, others, INTERIOR_WALL_THICKNESS)
+        ? moving
+        : null;
     };
 
-    // ✅ Fixed createWallWithDoorOpening with proper typing
-    const createWallWithDoorOpening = (
-      wallConfig: WallConfig,
-      door: DoorSpec,
-      roomW: number,
-      roomH: number,
-      material: THREE.Material,
-      roomId: string
-    ) => {
-      const segments: THREE.Mesh[] = [];
-      const { side } = wallConfig;
-      const thickness = INTERIOR_WALL_THICKNESS;
-
-      const along = side === "N" || side === "S" ? roomW : roomH;
-      const doorW = Math.max(0.6, Math.min(door.width, along - 0.05));
-      const maxOff = Math.max(0, along - doorW);
-      const off = Math.max(0, Math.min(1, door.offsetRatio)) * maxOff;
-
-      let doorStart: number, doorEnd: number;
+    // Khoảng hút (m) tương ứng SNAP_PX điểm ảnh ở mức thu phóng hiện tại
+    const snapThreshold = () => {
+      const camera = cameraRef.current,
+        wrap = wrapRef.current;
+      if (!camera || !wrap?.clientWidth) return 0;
+      return (SNAP_PX * (camera.right - camera.left)) / wrap.clientWidth;
+    };
 
-      if (side === "N" || side === "S") {
-        doorStart = -roomW / 2 + off;
-        doorEnd = doorStart + doorW;
+    const clearGuides = () => {
+      const group = guidesRef.current;
+      if (!group) return;
+      while (group.children.length) {
+        const c = group.children.pop()!;
+        disposeObject(c);
+      }
+    };
 
-        if (doorStart > -roomW / 2) {
-          const leftWallW = doorStart - -roomW / 2;
-          const leftWall = new THREE.Mesh(
-            new THREE.PlaneGeometry(leftWallW, thickness),
-            material
-          );
-          leftWall.position.set(
-            (-roomW / 2 + doorStart) / 2,
-            side === "N" ? roomH / 2 : -roomH / 2,
-            0.0003
-          );
-          leftWall.userData.isRoomWall = true;
-          leftWall.userData.roomId = roomId;
-          leftWall.userData.side = side;
-          leftWall.raycast = () => {};
-          segments.push(leftWall);
-        }
+    // Vẽ đường gióng với các phòng thẳng hàng và khoảng cách tới phòng/tường
+    // gần nhất ở bốn phía của phòng đang kéo
+    const showGuides = (roomId: string) => {
+      const group = guidesRef.current;
+      if (!group) return;
+      clearGuides();
+      const rects = roomRects();
+      const rect = rects.find((o) => o.id === roomId);
+      if (!rect) return;
+      const others = rects.filter((o) => o.id !== roomId);
+
+      const line = (
+        x1: number,
+        y1: number,
+        x2: number,
+        y2: number,
+        material: THREE.LineBasicMaterial | THREE.LineDashedMaterial
+      ) => {
+        const l = new THREE.Line(
+          new THREE.BufferGeometry().setFromPoints([
+            new THREE.Vector3(x1, y1, 6),
+            new THREE.Vector3(x2, y2, 6),
+          ]),
+          material
+        );
+        l.computeLineDistances();
+        l.raycast = () => {};
+        group.add(l);
+      };
 
-        if (doorEnd < roomW / 2) {
-          const rightWallW = roomW / 2 - doorEnd;
-          const rightWall = new THREE.Mesh(
-            new THREE.PlaneGeometry(rightWallW, thickness),
-            material
-          );
-          rightWall.position.set(
-            (doorEnd + roomW / 2) / 2,
-            side === "N" ? roomH / 2 : -roomH / 2,
-            0.0003
-          );
-          rightWall.userData.isRoomWall = true;
-          rightWall.userData.roomId = roomId;
-          rightWall.userData.side = side;
-          rightWall.raycast = () => {};
-          segments.push(rightWall);
-        }
-      } else {
-        doorStart = -roomH / 2 + off;
-        doorEnd = doorStart + doorW;
+      for (const g of alignmentGuides(rect, others, INTERIOR_WALL_THICKNESS)) {
+        const material = new THREE.LineDashedMaterial({
+          color: GUIDE_COLOR,
+          dashSize: g.kind === "center" ? 0.1 : 0.2,
+          gapSize: 0.1,
+        });
+        if (g.vertical) line(g.at, g.from, g.at, g.to, material);
+        else line(g.from, g.at, g.to, g.at, material);
+      }
 
-        if (doorStart > -roomH / 2) {
-          const bottomWallH = doorStart - -roomH / 2;
-          const bottomWall = new THREE.Mesh(
-            new THREE.PlaneGeometry(thickness, bottomWallH),
-            material
-          );
-          bottomWall.position.set(
-            side === "E" ? roomW / 2 : -roomW / 2,
-            (-roomH / 2 + doorStart) / 2,
-            0.0003
-          );
-          bottomWall.userData.isRoomWall = true;
-          bottomWall.userData.roomId = roomId;
-          bottomWall.userData.side = side;
-          bottomWall.raycast = () => {};
-          segments.push(bottomWall);
-        }
+      const readouts = neighbourDistances(rect, others, {
+        halfW: floorSizeRef.current.w / 2 - EXTERIOR_WALL_THICKNESS,
+        halfH: floorSizeRef.current.h / 2 - EXTERIOR_WALL_THICKNESS,
+      });
+      for (const d of readouts) {
+        line(
+          d.x1,
+          d.y1,
+          d.x2,
+          d.y2,
+          new THREE.LineBasicMaterial({ color: DISTANCE_COLOR })
+        );
 
-        if (doorEnd < roomH / 2) {
-          const topWallH = roomH / 2 - doorEnd;
-          const topWall = new THREE.Mesh(
-            new THREE.PlaneGeometry(thickness, topWallH),
-            material
-          );
-          topWall.position.set(
-            side === "E" ? roomW / 2 : -roomW / 2,
-            (doorEnd + roomH / 2) / 2,
-            0.0003
-          );
-          topWall.userData.isRoomWall = true;
-          topWall.userData.roomId = roomId;
-          topWall.userData.side = side;
-          topWall.raycast = () => {};
-          segments.push(topWall);
-        }
+        const labelCanvas = document.createElement("canvas");
+        labelCanvas.width = 96;
+        labelCanvas.height = 32;
+        const ctx = labelCanvas.getContext("2d")!;
+        ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+        ctx.fillRect(0, 0, labelCanvas.width, labelCanvas.height);
+        ctx.fillStyle = "#1d4ed8";
+        ctx.font = "18px sans-serif";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(
+          `${d.distance.toFixed(2)} m`,
+          labelCanvas.width / 2,
+          labelCanvas.height / 2
+        );
+        const tex = new THREE.CanvasTexture(labelCanvas);
+        tex.colorSpace = THREE.SRGBColorSpace;
+        tex.minFilter = THREE.LinearFilter;
+        const label = new THREE.Sprite(
+          new THREE.SpriteMaterial({ map: tex, depthTest: false })
+        );
+        label.position.set((d.x1 + d.x2) / 2, (d.y1 + d.y2) / 2, 6.1);
+        label.scale.set(0.9, 0.3, 1);
+        label.renderOrder = 10000;
+        group.add(label);
       }
-
-      return segments;
     };
 
     const bringToFront = (roomId: string) => {
@@ -675,6 +757,10 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
       contentRef.current = content;
       scene.add(content);
 
+      const guides = new THREE.Group();
+      guidesRef.current = guides;
+      scene.add(guides);
+
       const onResize = () => {
         if (!wrapRef.current || !rendererRef.current) return;
         rendererRef.current.setSize(
@@ -741,7 +827,7 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
       const planeZ = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
       const hit = new THREE.Vector3();
 
-      const getMouseNDC = (evt: PointerEvent) => {
+      const getMouseNDC = (evt: MouseEvent) => {
         const rect = renderer.domElement.getBoundingClientRect();
         mouse.x = ((evt.clientX - rect.left) / rect.width) * 2 - 1;
         mouse.y = -((evt.clientY - rect.top) / rect.height) * 2 + 1;
@@ -769,6 +855,8 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
 
           const { room: r, hit: hitInfo } = topmost;
           bringToFront(r.id);
+          dragStartRef.current = roomRects();
+          gestureRef.current += 1;
 
           const worldPoint = hitInfo.point.clone();
           const local = r.mesh.worldToLocal(worldPoint.clone());
@@ -930,7 +1018,25 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
             if (Math.abs(ny - top) < WALL_EPS) ny = top;
             if (Math.abs(ny - bot) < WALL_EPS) ny = bot;
 
-            r.mesh.position.set(nx, ny, r.mesh.position.z);
+            // Hút vào cạnh/tâm phòng khác (ưu tiên hơn lưới), vẫn trong sàn
+            const snapped = snapToRooms(
+              { x: nx, y: ny, w: r.w, h: r.h },
+              roomRects().filter((o) => o.id !== r.id),
+              { threshold: snapThreshold(), gap: INTERIOR_WALL_THICKNESS }
+            );
+            nx = Math.max(left, Math.min(right, snapped.x));
+            ny = Math.max(bot, Math.min(top, snapped.y));
+
+            const to = resolveCollision(
+              { id: r.id, x: nx, y: ny, w: r.w, h: r.h },
+              r.mesh,
+              true
+            );
+            if (!to) return;
+            r.mesh.position.set(to.x, to.y, r.mesh.position.z);
+            rebuildWalls();
+            markCollisions();
+            showGuides(r.id);
             return;
           }
 
@@ -1031,6 +1137,37 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
             }
           }
 
+          // Hút cạnh đang kéo giãn vào cạnh phòng khác
+          const others = roomRects().filter((o) => o.id !== r.id);
+          const snapOptions = {
+            threshold: snapThreshold(),
+            gap: INTERIOR_WALL_THICKNESS,
+          };
+          const snappedX = sgnX
+            ? snapEdge(edgeX, others, true, sgnX as 1 | -1, snapOptions)
+            : null;
+          if (
+            snappedX !== null &&
+            Math.abs(snappedX - anchor.x) >= MIN_W &&
+            snappedX >= minEdgeX &&
+            snappedX <= maxEdgeX
+          ) {
+            edgeX = snappedX;
+            newW = Math.abs(edgeX - anchor.x);
+          }
+          const snappedY = sgnY
+            ? snapEdge(edgeY, others, false, sgnY as 1 | -1, snapOptions)
+            : null;
+          if (
+            snappedY !== null &&
+            Math.abs(snappedY - anchor.y) >= MIN_H &&
+            snappedY >= minEdgeY &&
+            snappedY <= maxEdgeY
+          ) {
+            edgeY = snappedY;
+            newH = Math.abs(edgeY - anchor.y);
+          }
+
           let cx = (anchor.x + edgeX) / 2;
           let cy = (anchor.y + edgeY) / 2;
 
@@ -1041,30 +1178,21 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
             cy = anchor.y; // For E/W resize, Y center stays at anchor
           }
 
+          if (
+            !resolveCollision(
+              { id: r.id, x: cx, y: cy, w: newW, h: newH },
+              r.mesh,
+              false
+            )
+          ) {
+            return;
+          }
           r.mesh.position.set(cx, cy, r.mesh.position.z);
 
           (r.mesh.geometry as THREE.PlaneGeometry).dispose();
           const newGeom = new THREE.PlaneGeometry(newW, newH);
           r.mesh.geometry = newGeom;
 
-          if (showWalls) {
-            const oldWalls = r.mesh.children.filter(
-              (child: THREE.Object3D) =>
-                (child.userData as { isRoomWall?: boolean }).isRoomWall
-            );
-            oldWalls.forEach((wall) => {
-              const wallMesh = wall as THREE.Mesh;
-              if (wallMesh.geometry) {
-                wallMesh.geometry.dispose?.();
-              }
-              r.mesh.remove(wall);
-            });
-
-            const roomData = layout.rooms.find((room) => room.id === r.id);
-            const doors = roomData?.rawDoors || [];
-            createRoomWalls(r.mesh, newW, newH, r.id, doors);
-          }
-
           const doorMeshes: THREE.Mesh[] | undefined = r.mesh.userData.doors as
             | THREE.Mesh[]
             | undefined;
@@ -1077,6 +1205,9 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
 
           r.w = newW;
           r.h = newH;
+          rebuildWalls();
+          markCollisions();
+          showGuides(r.id);
 
           const roomData = layout.rooms.find((room) => room.id === r.id);
           if (roomData) {
@@ -1180,20 +1311,45 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
         }
 
         const dragging = draggingRef.current;
+        const onRoomEdit = onRoomEditRef.current;
         if (dragging && onRoomEdit) {
           const { r } = dragging;
-          onRoomEdit(r.id, {
-            x: r.mesh.position.x,
-            y: r.mesh.position.y,
-            w: r.w,
-            h: r.h,
+          // Chỉ báo các phòng thực sự đổi chỗ/kích thước so với lúc nhấn
+          // chuột: nhấn (hay nhấp đúp) mà không kéo thì không thành bước sửa
+          const now = new Map(roomRects().map((o) => [o.id, o]));
+          // Phòng đang kéo báo trước để bước lịch sử mang tên của nó
+          const changed = [
+            ...dragStartRef.current.filter((o) => o.id === r.id),
+            ...dragStartRef.current.filter((o) => o.id !== r.id),
+          ].filter((o) => {
+            const cur = now.get(o.id);
+            return (
+              cur &&
+              (Math.abs(cur.x - o.x) > 1e-6 ||
+                Math.abs(cur.y - o.y) > 1e-6 ||
+                Math.abs(cur.w - o.w) > 1e-6 ||
+                Math.abs(cur.h - o.h) > 1e-6)
+            );
           });
+          for (const o of changed) {
+            const cur = now.get(o.id)!;
+            // Phòng bị đẩy chỉ đổi vị trí
+            onRoomEdit(
+              o.id,
+              o.id === r.id
+                ? { x: cur.x, y: cur.y, w: cur.w, h: cur.h }
+                : { x: cur.x, y: cur.y },
+              storeyIndexRef.current,
+              gestureRef.current
+            );
+          }
 
           lastActiveRoomIdRef.current = r.id;
         }
 
         draggingRef.current = null;
         dragModeRef.current = "MOVE";
+        clearGuides();
         document.body.style.cursor = "default";
         if (rendererRef.current)
           rendererRef.current.domElement.style.cursor = "default";
@@ -1209,8 +1365,24 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
         }
       };
 
+      const onDblClick = (evt: MouseEvent) => {
+        if (!cameraRef.current || !onRoomLockRef.current) return;
+        getMouseNDC(evt);
+        ray.setFromCamera(mouse, cameraRef.current);
+        const topmost = findTopmostRoom(
+          ray.intersectObjects(
+            roomsRef.current.map((r) => r.mesh),
+            true
+          )
+        );
+        if (topmost) {
+          onRoomLockRef.current(topmost.room.id, storeyIndexRef.current);
+        }
+      };
+
       renderer.domElement.addEventListener("pointerdown", onDown);
       renderer.domElement.addEventListener("pointerleave", onLeave);
+      renderer.domElement.addEventListener("dblclick", onDblClick);
       window.addEventListener("pointermove", onMove);
       window.addEventListener("pointerup", onUp);
 
@@ -1229,6 +1401,7 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
         window.removeEventListener("pointerup", onUp);
         renderer.domElement.removeEventListener("pointerdown", onDown);
         renderer.domElement.removeEventListener("pointerleave", onLeave);
+        renderer.domElement.removeEventListener("dblclick", onDblClick);
 
         scene.traverse((o) => {
           const mesh = o as THREE.Mesh;
@@ -1258,6 +1431,8 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
         sceneRef.current = null;
         cameraRef.current = null;
         contentRef.current = null;
+        wallsRef.current = null;
+        guidesRef.current = null;
         roomsRef.current = [];
         draggingRef.current = null;
         cameraPanRef.current = null;
@@ -1275,6 +1450,7 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
         previousLayoutRef.current &&
         previousLayoutRef.current.floor.width === layout.floor.width &&
         previousLayoutRef.current.floor.height === layout.floor.height &&
+        previousLayoutRef.current.floor.outline === layout.floor.outline &&
         previousLayoutRef.current.rooms.length === layout.rooms.length;
 
       isRoomEditRef.current = Boolean(isRoomEdit);
@@ -1294,29 +1470,46 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
       zStackRef.current = [];
       zIndexMapRef.current.clear();
 
-      const { width: floorW, height: floorH, mainDoor } = layout.floor;
+      const { width: floorW, height: floorH, mainDoor, outline } = layout.floor;
       floorSizeRef.current = { w: floorW, h: floorH };
-
+      usableOutlineRef.current = outline
+        ? insetPolygon(outline, EXTERIOR_WALL_THICKNESS)
+        : undefined;
+
+      // Sàn đa giác vẽ theo đường bao, sàn chữ nhật giữ mặt phẳng cũ
+      const floorGeometry = outline
+        ? new THREE.ShapeGeometry(
+            new THREE.Shape(outline.map((p) => new THREE.Vector2(p.x, p.y)))
+          )
+        : new THREE.PlaneGeometry(floorW, floorH);
       const floor = new THREE.Mesh(
-        new THREE.PlaneGeometry(floorW, floorH),
+        floorGeometry,
         new THREE.MeshBasicMaterial({ color: 0xf8fafc, side: THREE.DoubleSide })
       );
       floor.position.set(0, 0, -0.02);
       content.add(floor);
 
       const floorEdge = new THREE.LineSegments(
-        new THREE.EdgesGeometry(floor.geometry as THREE.PlaneGeometry),
+        new THREE.EdgesGeometry(floorGeometry),
         new THREE.LineBasicMaterial({ color: 0x333333 })
       );
       content.add(floorEdge);
 
+      const walls = new THREE.Group();
+      wallsRef.current = walls;
+      content.add(walls);
       if (showWalls) {
-        const exteriorWalls = createExteriorWalls(floorW, floorH);
-        exteriorWalls.forEach((wall) => content.add(wall));
+        renderWalls(
+          layout.walls ??
+            layoutWallGraph(layout, layout.rooms, {
+              exteriorThickness: EXTERIOR_WALL_THICKNESS,
+              interiorThickness: INTERIOR_WALL_THICKNESS,
+            })
+        );
       }
 
-      // cửa chính
-      {
+      // cửa chính (tầng trên đi lên từ cầu thang, không có cửa chính)
+      if (!layout.entryRoomId) {
         const md = mainDoor;
         const dx = md.x2 - md.x1;
         const dy = md.y2 - md.y1;
@@ -1333,6 +1526,31 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
         content.add(doorMesh);
       }
 
+      // hành lang: nền xám, viền nét đứt, nằm dưới các phòng và không kéo thả được
+      for (const c of layout.corridors ?? []) {
+        const corridor = new THREE.Mesh(
+          new THREE.PlaneGeometry(c.w, c.h),
+          new THREE.MeshBasicMaterial({
+            color: 0xe5e7eb,
+            side: THREE.DoubleSide,
+          })
+        );
+        corridor.position.set(c.x, c.y, -0.01);
+        content.add(corridor);
+
+        const outline = new THREE.LineSegments(
+          new THREE.EdgesGeometry(corridor.geometry as THREE.PlaneGeometry),
+          new THREE.LineDashedMaterial({
+            color: 0x9ca3af,
+            dashSize: 0.2,
+            gapSize: 0.1,
+          })
+        );
+        outline.computeLineDistances();
+        outline.position.set(c.x, c.y, -0.005);
+        content.add(outline);
+      }
+
       // rooms
       for (const [idx, r] of layout.rooms.entries()) {
         const geom = new THREE.PlaneGeometry(r.w, r.h);
@@ -1358,13 +1576,11 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
         mesh.position.set(r.x, r.y, zPos);
         mesh.renderOrder = zIndex;
         mesh.userData.roomId = r.id;
+        mesh.userData.color = r.color;
+        // Chế độ đẩy không được dời phòng đã khoá và cầu thang
+        mesh.userData.fixed = Boolean(r.locked) || r.id === STAIR_ID;
         content.add(mesh);
 
-        if (showWalls) {
-          const doors = r.rawDoors || [];
-          createRoomWalls(mesh, r.w, r.h, r.id, doors);
-        }
-
         // label
         const sprCanvas = document.createElement("canvas");
         const ctx = sprCanvas.getContext("2d")!;
@@ -1375,6 +1591,10 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
         ctx.textAlign = "center";
         ctx.textBaseline = "middle";
         ctx.fillText(r.label, sprCanvas.width / 2, sprCanvas.height / 2);
+        // Phòng đã khoá: biểu tượng ổ khoá phía trên nhãn
+        if (r.locked) {
+          ctx.fillText("🔒", sprCanvas.width / 2, sprCanvas.height / 2 - 22);
+        }
 
         const tex = new THREE.CanvasTexture(sprCanvas);
         tex.colorSpace = THREE.SRGBColorSpace;
@@ -1421,6 +1641,7 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
 
         roomsRef.current.push({ id: r.id, mesh, w: r.w, h: r.h });
       }
+      markCollisions();
 
       if (oldZStack.length > 0) {
         const existingIds = new Set(oldZStack);
@@ -1457,6 +1678,46 @@ const Floor2DCanvas = forwardRef<Floor2DHandle, Props>(
           containerRef={wrapRef}
           className="font-sans"
         />
+        {storeys.length > 1 && (
+          <div className="absolute left-2 top-2 flex gap-1 rounded-lg bg-white/90 p-1 shadow">
+            {storeys.map((storey, idx) => (
+              <button
+                key={storey.id}
+                type="button"
+                onClick={() => setStoreyIndex(idx)}
+                className={`rounded-md px-3 py-1 text-sm hover:cursor-pointer ${
+                  idx === activeStorey
+                    ? "bg-blue-600 text-white"
+                    : "text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                {storey.name}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="absolute right-2 top-2 flex items-center gap-1 rounded-lg bg-white/90 p-1 text-sm shadow">
+          <span className="px-2 text-gray-500">Va chạm:</span>
+          {COLLISION_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setCollisionMode(mode)}
+              className={`rounded-md px-3 py-1 hover:cursor-pointer ${
+                mode === collisionMode
+                  ? "bg-blue-600 text-white"
+                  : "text-gray-700 hover:bg-gray-100"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {onRoomLock && (
+          <div className="pointer-events-none absolute bottom-2 left-2 rounded-md bg-white/90 px-2 py-1 text-xs text-gray-600 shadow">
+            Nhấp đúp vào phòng để khoá/mở khoá vị trí 🔒
+          </div>
+        )}
       </div>
     );
   }
@@ -1,10 +1,38 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Floor2DHandle } from "./Floor2DCanvas";
+import {
+  ATTACH_LABELS,
+  DEFAULT_ALLOCATION_PROFILE,
+  getAllocationProfiles,
+  getRoomTypes,
+  type RoomTypeInfo,
+} from "@/utils/GenerateLayout";
+import { isValidSeed, randomSeed } from "@/utils/Random";
+import {
+  dominantSide,
+  insetPolygon,
+  lShapeOutline,
+  normalizeOutline,
+  outlineEdges,
+  parseOutlineText,
+  polygonArea,
+  rectInsidePolygon,
+  trapezoidOutline,
+  validateOutline,
+  worldOutline,
+  type Point,
+} from "@/utils/FloorOutline";
+import RoomDoorEditor from "./RoomDoorEditor";
+import RoomSizeEditor from "./RoomSizeEditor";
 
 export type Edge = "N" | "E" | "S" | "W";
-export type RoomType = "living" | "kitchen" | "bed" | "wc";
+// Loại phòng: khoá `type` trong roomTypes của room_preset.json (living,
+// kitchen, bed, wc, stair, ...)
+export type RoomType = string;
+// greedy: xếp tham lam (nhanh); anneal: tối ưu theo điểm bằng mô phỏng luyện kim
+export type SolverKind = "greedy" | "anneal";
 
 export interface DoorInput {
   id: string;
@@ -13,28 +41,101 @@ export interface DoorInput {
   offsetRatio: number;
 }
 
+// Yêu cầu kích thước của một phòng (m, m²), mọi trường đều tuỳ chọn:
+// width + height hoặc preset (chỉ số trong presets của loại phòng) cố định
+// kích thước; area là diện tích mục tiêu, minArea/maxArea giới hạn khoảng
+// diện tích. Tất cả nằm trong khoảng area.min/max của loại phòng.
+export interface RoomSizeInput {
+  area?: number;
+  minArea?: number;
+  maxArea?: number;
+  width?: number;
+  height?: number;
+  preset?: number;
+}
+
+// Ràng buộc vị trí: sát một cạnh (N/E/S/W) hoặc nằm ở một góc của sàn
+export type RoomCorner = "NE" | "NW" | "SE" | "SW";
+export type RoomAttach = Edge | RoomCorner;
+
+// Vị trí đã khoá (m): tâm x, y (gốc ở tâm sàn) và kích thước w × h
+export interface RoomPin {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
 export interface RoomInput {
   id: string;
   type: RoomType;
   doors: DoorInput[];
+  size?: RoomSizeInput;
+  attach?: RoomAttach;
+  // Do trang gắn vào từ các phòng đã khoá trên canvas; tạo lại thì giữ nguyên
+  pin?: RoomPin;
+}
+
+// Một tầng phía trên tầng 1: chương trình phòng riêng trên cùng đường bao sàn
+export interface StoreyInput {
+  id: string;
+  name: string;
+  rooms: RoomInput[];
+}
+
+// Cầu thang (m): chạy dọc cạnh dài của sàn; x, y là tâm (gốc ở tâm sàn),
+// bỏ trống thì tự đặt ở góc xa cửa chính
+export interface StairInput {
+  width: number;
+  length: number;
+  x?: number;
+  y?: number;
 }
 
 export interface FloorInput {
   floor: {
+    // Khung bao của sàn (m)
     width: number;
     height: number;
-    mainDoor: { edge: Edge; offset: number; width: number };
+    // Đường bao sàn khác hình chữ nhật: các đỉnh (m) ngược chiều kim đồng
+    // hồ, gốc ở góc SW của khung bao; bỏ trống thì sàn là hình chữ nhật
+    // width × height
+    outline?: Point[];
+    // edgeIndex: cạnh thứ mấy của outline chứa cửa chính (offset tính từ
+    // đỉnh đầu cạnh); edge khi đó là hướng chính của cạnh
+    mainDoor: { edge: Edge; offset: number; width: number; edgeIndex?: number };
   };
   rooms: RoomInput[];
+  // Các tầng phía trên tầng 1 (tầng 1 dùng `rooms`)
+  upperStoreys?: StoreyInput[];
+  // Cầu thang chung, cùng vị trí trên mọi tầng
+  stair?: StairInput;
   walls: {
     exteriorThickness: number;
     interiorThickness: number;
   };
+  // Tự động thêm cửa giữa các phòng có chung tường (mặc định bật)
+  autoDoors?: boolean;
+  // Tên hồ sơ trong allocationProfiles của room_preset.json
+  allocationProfile?: string;
+  solver?: SolverKind;
+  // Seed cho các bước ngẫu nhiên; bỏ trống thì mỗi lần tạo dùng seed mới
+  seed?: number;
+  // Bề rộng hành lang (m); mặc định lấy defaults.minCorridorWidth
+  corridorWidth?: number;
+  // Số lớn nhất đã cấp cho id phòng (room_n) — chỉ tăng, để phòng thêm sau
+  // không nhận lại id (và khoá vị trí) của phòng đã xoá
+  lastRoomNumber?: number;
 }
 
 interface Props {
   onSubmit: (data: FloorInput) => void;
   canvasRef?: React.MutableRefObject<Floor2DHandle | null>;
+  // Dữ liệu ban đầu của form (khôi phục lịch sử); chỉ đọc khi mount
+  initialInput?: FloorInput;
+  // Báo mỗi lệnh sửa phòng/cửa/tầng kèm nhãn để ghi lịch sử; coalesce: các
+  // lần sửa liên tiếp cùng khoá (gõ số) gộp thành một bước
+  onInputChange?: (input: FloorInput, label: string, coalesce?: string) => void;
 }
 
 const edges: Edge[] = ["N", "E", "S", "W"];
@@ -45,33 +146,228 @@ const edgeLabels: Record<Edge, string> = {
   W: "Tây (W)",
 };
 
-const roomTypes: { value: RoomType; label: string; icon: string }[] = [
-  { value: "living", label: "Phòng khách", icon: "🛋️" },
-  { value: "kitchen", label: "Bếp", icon: "🍳" },
-  { value: "bed", label: "Phòng ngủ", icon: "🛏️" },
-  { value: "wc", label: "Nhà vệ sinh", icon: "🚿" },
-];
+const DOOR_W_MIN = 0.6;
 
-const uid = () => Math.random().toString(36).slice(2, 10);
+// Kích thước cố định người dùng chọn cho phòng (rộng × dài hoặc mẫu)
+const fixedRoomSize = (room: RoomInput, roomType?: RoomTypeInfo) => {
+  const { width, height, preset } = room.size ?? {};
+  if (width && height) return { w: width, h: height };
+  const p = preset !== undefined ? roomType?.presets[preset] : undefined;
+  return p && { w: p.w, h: p.h };
+};
 
-const FloorForm = ({ onSubmit, canvasRef }: Props) => {
-  const [width, setWidth] = useState<string>("20");
-  const [height, setHeight] = useState<string>("5");
-  const [mainEdge, setMainEdge] = useState<Edge>("N");
-  const [mainOffset, setMainOffset] = useState<string>("2");
-  const [mainWidth, setMainWidth] = useState<string>("1");
+// Lỗi của yêu cầu kích thước một phòng so với khoảng diện tích của loại phòng
+const roomSizeErrors = (
+  name: string,
+  size: RoomSizeInput,
+  roomType?: RoomTypeInfo
+) => {
+  const e: string[] = [];
+  const min = roomType?.area.min ?? 0;
+  const max = roomType?.area.max ?? Infinity;
+  const inRange = (v: number) => v >= min - 1e-6 && v <= max + 1e-6;
+  const range = roomType ? `${min}–${max}m²` : "";
 
-  const [exteriorWallThickness, setExteriorWallThickness] =
-    useState<string>("0.2");
-  const [interiorWallThickness, setInteriorWallThickness] =
-    useState<string>("0.1");
+  if (size.width !== undefined || size.height !== undefined) {
+    if (!(size.width && size.width >= 1 && size.height && size.height >= 1)) {
+      e.push(`${name}: rộng và dài phải từ 1m trở lên`);
+    } else if (!inRange(size.width * size.height)) {
+      e.push(`${name}: diện tích ${size.width}×${size.height}m ngoài ${range}`);
+    }
+    return e;
+  }
+  if (size.preset !== undefined) {
+    if (roomType && !roomType.presets[size.preset]) {
+      e.push(`${name}: mẫu kích thước không hợp lệ`);
+    }
+    return e;
+  }
+  for (const [label, v] of [
+    ["diện tích mục tiêu", size.area],
+    ["diện tích tối thiểu", size.minArea],
+    ["diện tích tối đa", size.maxArea],
+  ] as const) {
+    if (v !== undefined && !inRange(v)) {
+      e.push(`${name}: ${label} phải trong khoảng ${range}`);
+    }
+  }
+  const lo = size.minArea ?? min;
+  const hi = size.maxArea ?? max;
+  if (lo > hi) e.push(`${name}: diện tích tối thiểu lớn hơn tối đa`);
+  else if (size.area !== undefined && (size.area < lo || size.area > hi)) {
+    e.push(`${name}: diện tích mục tiêu nằm ngoài khoảng tối thiểu–tối đa`);
+  }
+  return e;
+};
 
-  const [rooms, setRooms] = useState<RoomInput[]>([]);
+// Hình dạng sàn: chữ nhật, chữ L (khuyết góc Đông Bắc), hình thang hoặc đa
+// giác tự nhập
+type FloorShape = "rect" | "L" | "trapezoid" | "custom";
 
-  const errors = useMemo(() => {
-    const e: string[] = [];
+const shapeLabels: Record<FloorShape, string> = {
+  rect: "Chữ nhật",
+  L: "Chữ L",
+  trapezoid: "Hình thang",
+  custom: "Tùy chỉnh (nhập đỉnh)",
+};
+
+const profileLabels: Record<string, string> = {
+  default: "Mặc định",
+  family: "Gia đình",
+  rental: "Cho thuê",
+};
+
+const solverLabels: Record<SolverKind, string> = {
+  greedy: "Nhanh (tham lam)",
+  anneal: "Tối ưu (mô phỏng luyện kim)",
+};
+
+// Id tiếp theo theo thứ tự (room_1, room_2, ...) — không phụ thuộc
+// Math.random để cùng thao tác luôn cho cùng dữ liệu nhập
+const nextId = (prefix: string, existing: Array<{ id: string }>) => {
+  const max = existing.reduce((m, { id }) => {
+    const n = Number(id.slice(prefix.length + 1));
+    return id.startsWith(`${prefix}_`) && Number.isInteger(n)
+      ? Math.max(m, n)
+      : m;
+  }, 0);
+  return `${prefix}_${max + 1}`;
+};
+
+// Số cuối đã cấp cho id phòng: theo dữ liệu nhập, không nhỏ hơn số lớn nhất
+// của các phòng đang có trên mọi tầng
+const lastRoomNumberOf = (input?: FloorInput) =>
+  [
+    ...(input?.rooms ?? []),
+    ...(input?.upperStoreys ?? []).flatMap((storey) => storey.rooms),
+  ].reduce((m, { id }) => {
+    const n = Number(id.slice("room_".length));
+    return id.startsWith("room_") && Number.isInteger(n) ? Math.max(m, n) : m;
+  }, input?.lastRoomNumber ?? 0);
+
+// Giá trị các ô nhập của form từ dữ liệu nhập (mặc định khi không có hoặc
+// khi ô đó đang nhập dở, không phải số)
+const formFieldsOf = (input?: FloorInput) => {
+  const floor = input?.floor;
+  const stair = input?.stair;
+  const field = (value: number | undefined, fallback: number) =>
+    String(Number.isFinite(value) ? value : fallback);
+  return {
+    width: field(floor?.width, 20),
+    height: field(floor?.height, 5),
+    shape: (floor?.outline ? "custom" : "rect") as FloorShape,
+    outlineText: floor?.outline
+      ? floor.outline.map((p) => `${p.x},${p.y}`).join("\n")
+      : "0,0\n12,0\n12,6\n7,6\n7,10\n0,10",
+    mainEdge: floor?.mainDoor.edge ?? ("N" as Edge),
+    mainOffset: field(floor?.mainDoor.offset, 2),
+    mainWidth: field(floor?.mainDoor.width, 1),
+    mainEdgeIndex: floor?.mainDoor.edgeIndex ?? 0,
+    exteriorWallThickness: field(input?.walls.exteriorThickness, 0.2),
+    interiorWallThickness: field(input?.walls.interiorThickness, 0.1),
+    storeys: [
+      { id: "storey_1", name: "Tầng 1", rooms: input?.rooms ?? [] },
+      ...(input?.upperStoreys ?? []),
+    ] as StoreyInput[],
+    stairWidth: field(stair?.width, 1.2),
+    stairLength: field(stair?.length, 3.6),
+    stairX: Number.isFinite(stair?.x) ? String(stair?.x) : "",
+    stairY: Number.isFinite(stair?.y) ? String(stair?.y) : "",
+    autoDoors: input?.autoDoors ?? true,
+    allocationProfile: input?.allocationProfile ?? DEFAULT_ALLOCATION_PROFILE,
+    solver: input?.solver ?? ("greedy" as SolverKind),
+    seed: input?.seed !== undefined ? String(input.seed) : "",
+    corridorWidth: Number.isFinite(input?.corridorWidth)
+      ? String(input?.corridorWidth)
+      : "",
+  };
+};
+
+const FloorForm = ({
+  onSubmit,
+  canvasRef,
+  initialInput,
+  onInputChange,
+}: Props) => {
+  const [init] = useState(() => formFieldsOf(initialInput));
+  // Không hiển thị nên giữ trong ref; buildInput đọc được ngay sau khi tăng
+  const lastRoomNumberRef = useRef(lastRoomNumberOf(initialInput));
+  const [width, setWidth] = useState<string>(init.width);
+  const [height, setHeight] = useState<string>(init.height);
+  const [mainEdge, setMainEdge] = useState<Edge>(init.mainEdge);
+  const [mainOffset, setMainOffset] = useState<string>(init.mainOffset);
+  const [mainWidth, setMainWidth] = useState<string>(init.mainWidth);
+  const [mainEdgeIndex, setMainEdgeIndex] = useState<number>(
+    init.mainEdgeIndex
+  );
+
+  const [shape, setShape] = useState<FloorShape>(init.shape);
+  const [cutW, setCutW] = useState<string>("8");
+  const [cutH, setCutH] = useState<string>("2");
+  const [topWidth, setTopWidth] = useState<string>("14");
+  const [outlineText, setOutlineText] = useState<string>(init.outlineText);
+
+  const [exteriorWallThickness, setExteriorWallThickness] = useState<string>(
+    init.exteriorWallThickness
+  );
+  const [interiorWallThickness, setInteriorWallThickness] = useState<string>(
+    init.interiorWallThickness
+  );
+
+  // Tầng 1 và các tầng trên; danh sách phòng đang sửa là của tầng đang chọn
+  const [storeys, setStoreys] = useState<StoreyInput[]>(init.storeys);
+  const [activeStorey, setActiveStorey] = useState(0);
+  const rooms = storeys[activeStorey]?.rooms ?? [];
+  const [stairWidth, setStairWidth] = useState<string>(init.stairWidth);
+  const [stairLength, setStairLength] = useState<string>(init.stairLength);
+  const [stairX, setStairX] = useState<string>(init.stairX);
+  const [stairY, setStairY] = useState<string>(init.stairY);
+  const [autoDoors, setAutoDoors] = useState<boolean>(init.autoDoors);
+  const [allocationProfile, setAllocationProfile] = useState<string>(
+    init.allocationProfile
+  );
+  const [solver, setSolver] = useState<SolverKind>(init.solver);
+  const [seed, setSeed] = useState<string>(init.seed);
+  const [corridorWidth, setCorridorWidth] = useState<string>(
+    init.corridorWidth
+  );
+  const [roomTypes, setRoomTypes] = useState<RoomTypeInfo[]>([]);
+  const [profiles, setProfiles] = useState<string[]>([
+    DEFAULT_ALLOCATION_PROFILE,
+  ]);
+
+  useEffect(() => {
+    getAllocationProfiles().then(setProfiles);
+    getRoomTypes().then(setRoomTypes);
+  }, []);
+
+  // Đường bao đã chuẩn hoá (ngược chiều kim đồng hồ, gốc SW) cùng khung bao;
+  // null với sàn chữ nhật
+  const polygon = useMemo(() => {
     const w = parseFloat(width);
     const h = parseFloat(height);
+    let points: Point[];
+    if (shape === "L") {
+      points = lShapeOutline(w, h, parseFloat(cutW), parseFloat(cutH));
+    } else if (shape === "trapezoid") {
+      points = trapezoidOutline(w, h, parseFloat(topWidth));
+    } else if (shape === "custom") {
+      points = parseOutlineText(outlineText);
+    } else {
+      return null;
+    }
+    const error = validateOutline(points);
+    return error ? { error } : { error: null, ...normalizeOutline(points) };
+  }, [shape, width, height, cutW, cutH, topWidth, outlineText]);
+  const polygonEdges = useMemo(
+    () => (polygon?.error === null ? outlineEdges(polygon.outline) : []),
+    [polygon]
+  );
+
+  const errors = useMemo(() => {
+    const e: string[] = [];
+    const w = polygon?.error === null ? polygon.width : parseFloat(width);
+    const h = polygon?.error === null ? polygon.height : parseFloat(height);
     const mw = parseFloat(mainWidth);
     const mo = parseFloat(mainOffset);
     const extWall = parseFloat(exteriorWallThickness);
@@ -82,6 +378,21 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
     if (!Number.isFinite(mw) || mw < 0.6)
       e.push("Bề rộng cửa chính tối thiểu 0.6m");
     if (!Number.isFinite(mo) || mo < 0) e.push("Vị trí cửa chính phải ≥ 0");
+    if (shape === "L") {
+      const cw = parseFloat(cutW);
+      const ch = parseFloat(cutH);
+      if (!(cw > 0 && cw < w && ch > 0 && ch < h)) {
+        e.push("Phần khuyết chữ L phải nhỏ hơn kích thước sàn");
+      }
+    }
+    if (polygon?.error) e.push(polygon.error);
+    const doorEdge = polygonEdges[mainEdgeIndex];
+    if (polygon?.error === null && !doorEdge) {
+      e.push("Chưa chọn cạnh đặt cửa chính");
+    }
+    if (doorEdge && Number.isFinite(mw) && mw > doorEdge.length) {
+      e.push("Cửa chính dài hơn cạnh được chọn");
+    }
 
     if (!Number.isFinite(extWall) || extWall < 0.05 || extWall > 0.5) {
       e.push("Độ dày tường ngoài phải từ 0.05m đến 0.5m");
@@ -89,6 +400,15 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
     if (!Number.isFinite(intWall) || intWall < 0.05 || intWall > 0.3) {
       e.push("Độ dày tường trong phải từ 0.05m đến 0.3m");
     }
+    if (corridorWidth.trim()) {
+      const cw = parseFloat(corridorWidth);
+      if (!Number.isFinite(cw) || cw < 0.8 || cw > 3) {
+        e.push("Bề rộng hành lang phải từ 0.8m đến 3m");
+      }
+    }
+    if (seed.trim() && !isValidSeed(Number(seed))) {
+      e.push("Seed phải là số nguyên từ 0 đến 4294967295");
+    }
 
     if (
       Number.isFinite(w) &&
@@ -105,55 +425,305 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
       e.push("Tường ngoài quá dày so với chiều dọc sàn");
     }
 
-    rooms.forEach((r, i) => {
-      if (!r.type) e.push(`Phòng ${i + 1}: chưa chọn loại phòng`);
+    if (storeys.length > 1) {
+      const sw = parseFloat(stairWidth);
+      const sl = parseFloat(stairLength);
+      if (!Number.isFinite(sw) || sw < 0.8 || sw > 3) {
+        e.push("Bề rộng cầu thang phải từ 0.8m đến 3m");
+      }
+      if (!Number.isFinite(sl) || sl < 2 || sl > 8) {
+        e.push("Chiều dài cầu thang phải từ 2m đến 8m");
+      }
+      if (Boolean(stairX.trim()) !== Boolean(stairY.trim())) {
+        e.push("Vị trí cầu thang cần nhập đủ cả x và y (hoặc bỏ trống cả hai)");
+      } else if (
+        stairX.trim() &&
+        !(
+          Number.isFinite(parseFloat(stairX)) &&
+          Number.isFinite(parseFloat(stairY))
+        )
+      ) {
+        e.push("Vị trí cầu thang không hợp lệ");
+      } else if (
+        stairX.trim() &&
+        Number.isFinite(sw) &&
+        Number.isFinite(sl) &&
+        Number.isFinite(extWall)
+      ) {
+        // Cùng cách xoay cầu thang với bộ sinh: chiều dài theo cạnh dài
+        const floor =
+          polygon?.error === null ? polygon : { width: w, height: h };
+        const alongX = floor.width >= floor.height;
+        const stair = {
+          x: parseFloat(stairX),
+          y: parseFloat(stairY),
+          w: alongX ? sl : sw,
+          h: alongX ? sw : sl,
+        };
+        if (
+          Number.isFinite(floor.width) &&
+          Number.isFinite(floor.height) &&
+          !rectInsidePolygon(stair, insetPolygon(worldOutline(floor), extWall))
+        ) {
+          e.push(
+            "Cầu thang tại vị trí đã nhập nằm ngoài sàn (trừ tường ngoài)"
+          );
+        }
+      }
+    }
+
+    storeys.forEach((storey) => {
+      storey.rooms.forEach((r, i) => {
+        const name =
+          storeys.length > 1
+            ? `${storey.name}, phòng ${i + 1}`
+            : `Phòng ${i + 1}`;
+        if (!r.type) e.push(`${name}: chưa chọn loại phòng`);
+        if (r.size) {
+          e.push(
+            ...roomSizeErrors(
+              name,
+              r.size,
+              roomTypes.find((t) => t.type === r.type)
+            )
+          );
+        }
+
+        const usedSides = new Set<Edge>();
+        r.doors.forEach((d, j) => {
+          if (!Number.isFinite(d.width) || d.width < DOOR_W_MIN) {
+            e.push(`${name}, cửa ${j + 1}: bề rộng tối thiểu ${DOOR_W_MIN}m`);
+          }
+          if (
+            !Number.isFinite(d.offsetRatio) ||
+            d.offsetRatio < 0 ||
+            d.offsetRatio > 1
+          ) {
+            e.push(`${name}, cửa ${j + 1}: vị trí phải từ 0 đến 1`);
+          }
+          if (usedSides.has(d.side)) {
+            e.push(`${name}: cạnh ${edgeLabels[d.side]} chỉ đặt được một cửa`);
+          }
+          usedSides.add(d.side);
+        });
+      });
     });
     return e;
   }, [
     width,
     height,
+    shape,
+    cutW,
+    cutH,
+    polygon,
+    polygonEdges,
+    mainEdgeIndex,
     mainWidth,
     mainOffset,
     exteriorWallThickness,
     interiorWallThickness,
-    rooms,
+    storeys,
+    roomTypes,
+    stairWidth,
+    stairLength,
+    stairX,
+    stairY,
+    seed,
+    corridorWidth,
   ]);
 
+  // Mọi lệnh sửa phòng/cửa/tầng đi qua đây để báo lên lịch sử
+  const changeStoreys = (
+    next: StoreyInput[],
+    label: string,
+    coalesce?: string
+  ) => {
+    setStoreys(next);
+    onInputChange?.(buildInput(next), label, coalesce);
+  };
+  const setRooms = (
+    update: (prev: RoomInput[]) => RoomInput[],
+    label: string,
+    coalesce?: string
+  ) =>
+    changeStoreys(
+      storeys.map((storey, i) =>
+        i === activeStorey ? { ...storey, rooms: update(storey.rooms) } : storey
+      ),
+      label,
+      coalesce
+    );
+  const roomLabel = (roomId: string) => {
+    const type = rooms.find((r) => r.id === roomId)?.type;
+    return roomTypes.find((t) => t.type === type)?.label ?? "phòng";
+  };
+
+  // Các tầng đặt tên theo thứ tự; thêm tầng thì chuyển sang sửa tầng mới
+  const addStorey = () => {
+    changeStoreys(
+      [
+        ...storeys,
+        {
+          id: nextId("storey", storeys),
+          name: `Tầng ${storeys.length + 1}`,
+          rooms: [],
+        },
+      ],
+      "Thêm tầng"
+    );
+    setActiveStorey(storeys.length);
+  };
+  const removeStorey = (index: number) => {
+    changeStoreys(
+      storeys
+        .filter((_, i) => i !== index)
+        .map((storey, i) => ({ ...storey, name: `Tầng ${i + 1}` })),
+      `Xoá ${storeys[index].name}`
+    );
+    setActiveStorey((i) => (i >= index ? Math.max(0, i - 1) : i));
+  };
+
   const addRoom = () => {
-    const id = `room_${uid()}`;
-    setRooms((prev) => [...prev, { id, type: "living", doors: [] }]);
+    lastRoomNumberRef.current += 1;
+    const id = `room_${lastRoomNumberRef.current}`;
+    setRooms(
+      (prev) => [...prev, { id, type: "living", doors: [] }],
+      "Thêm phòng"
+    );
   };
   const removeRoom = (roomId: string) => {
-    setRooms((prev) => prev.filter((r) => r.id !== roomId));
+    setRooms(
+      (prev) => prev.filter((r) => r.id !== roomId),
+      `Xoá ${roomLabel(roomId)}`
+    );
   };
-  const updateRoom = (roomId: string, patch: Partial<RoomInput>) => {
-    setRooms((prev) =>
-      prev.map((r) => (r.id === roomId ? { ...r, ...patch } : r))
+  const updateRoom = (
+    roomId: string,
+    patch: Partial<RoomInput>,
+    label: string,
+    coalesce?: string
+  ) => {
+    setRooms(
+      (prev) => prev.map((r) => (r.id === roomId ? { ...r, ...patch } : r)),
+      label,
+      coalesce
     );
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (errors.length) return;
+  const addDoor = (roomId: string) => {
+    setRooms(
+      (prev) =>
+        prev.map((r) =>
+          r.id === roomId
+            ? {
+                ...r,
+                doors: [
+                  ...r.doors,
+                  {
+                    id: nextId("door", r.doors),
+                    side: "S",
+                    width: 0.9,
+                    offsetRatio: 0.5,
+                  },
+                ],
+              }
+            : r
+        ),
+      `Thêm cửa ${roomLabel(roomId)}`
+    );
+  };
+  const updateDoor = (
+    roomId: string,
+    doorId: string,
+    patch: Partial<DoorInput>
+  ) => {
+    setRooms(
+      (prev) =>
+        prev.map((r) =>
+          r.id === roomId
+            ? {
+                ...r,
+                doors: r.doors.map((d) =>
+                  d.id === doorId ? { ...d, ...patch } : d
+                ),
+              }
+            : r
+        ),
+      `Sửa cửa ${roomLabel(roomId)}`,
+      `door:${roomId}:${doorId}`
+    );
+  };
+  const removeDoor = (roomId: string, doorId: string) => {
+    setRooms(
+      (prev) =>
+        prev.map((r) =>
+          r.id === roomId
+            ? { ...r, doors: r.doors.filter((d) => d.id !== doorId) }
+            : r
+        ),
+      `Xoá cửa ${roomLabel(roomId)}`
+    );
+  };
 
-    const data: FloorInput = {
-      floor: {
-        width: parseFloat(width),
-        height: parseFloat(height),
-        mainDoor: {
-          edge: mainEdge,
-          offset: parseFloat(mainOffset),
-          width: parseFloat(mainWidth),
+  // Dữ liệu nhập từ trạng thái form (next: danh sách tầng vừa đổi, chưa kịp
+  // vào state)
+  const buildInput = (next: StoreyInput[] = storeys): FloorInput => {
+    const doorEdge = polygonEdges[mainEdgeIndex];
+    return {
+      floor:
+        polygon?.error === null && doorEdge
+          ? {
+              width: polygon.width,
+              height: polygon.height,
+              outline: polygon.outline,
+              mainDoor: {
+                edge: dominantSide(doorEdge.normal),
+                offset: parseFloat(mainOffset),
+                width: parseFloat(mainWidth),
+                edgeIndex: mainEdgeIndex,
+              },
+            }
+          : {
+              width: parseFloat(width),
+              height: parseFloat(height),
+              mainDoor: {
+                edge: mainEdge,
+                offset: parseFloat(mainOffset),
+                width: parseFloat(mainWidth),
+              },
+            },
+      rooms: next[0].rooms,
+      ...(next.length > 1 && {
+        upperStoreys: next.slice(1),
+        stair: {
+          width: parseFloat(stairWidth),
+          length: parseFloat(stairLength),
+          ...(stairX.trim() && {
+            x: parseFloat(stairX),
+            y: parseFloat(stairY),
+          }),
         },
-      },
-      rooms,
+      }),
       walls: {
         exteriorThickness: parseFloat(exteriorWallThickness),
         interiorThickness: parseFloat(interiorWallThickness),
       },
+      autoDoors,
+      allocationProfile,
+      solver,
+      seed: seed.trim() ? Number(seed) : undefined,
+      corridorWidth: corridorWidth.trim()
+        ? parseFloat(corridorWidth)
+        : undefined,
+      lastRoomNumber: lastRoomNumberRef.current,
     };
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (errors.length) return;
     canvasRef?.current?.resetCameraPan();
-    onSubmit?.(data);
+    onSubmit?.(buildInput());
   };
 
   const safeParseFloat = (value: string, fallback: number = 0): number => {
@@ -162,12 +732,22 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
   };
 
   const getDisplayArea = (): string => {
+    if (polygon) {
+      return polygon.error === null
+        ? polygonArea(polygon.outline).toFixed(2)
+        : "--";
+    }
     const w = safeParseFloat(width);
     const h = safeParseFloat(height);
     return w > 0 && h > 0 ? (w * h).toFixed(2) : "--";
   };
 
   const getUsableArea = (): string => {
+    if (polygon) {
+      if (polygon.error !== null) return "--";
+      const extWall = safeParseFloat(exteriorWallThickness);
+      return polygonArea(insetPolygon(polygon.outline, extWall)).toFixed(2);
+    }
     const w = safeParseFloat(width);
     const h = safeParseFloat(height);
     const extWall = safeParseFloat(exteriorWallThickness);
@@ -212,36 +792,120 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
                 <h3 className="text-sm font-medium text-gray-700">
                   Kích thước sàn
                 </h3>
-                <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="mb-2 block text-sm text-gray-600">
+                    Hình dạng sàn
+                  </label>
+                  <select
+                    value={shape}
+                    onChange={(e) => {
+                      setShape(e.target.value as FloorShape);
+                      setMainEdgeIndex(0);
+                    }}
+                    className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
+                  >
+                    {(Object.keys(shapeLabels) as FloorShape[]).map((k) => (
+                      <option key={k} value={k} className="bg-white">
+                        {shapeLabels[k]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {shape === "custom" ? (
                   <div>
                     <label className="mb-2 block text-sm text-gray-600">
-                      Chiều ngang (m)
+                      Các đỉnh đường bao (mỗi dòng &quot;x,y&quot;, m)
                     </label>
-                    <input
-                      type="number"
-                      step="0.1"
-                      min={1}
-                      value={width}
-                      onChange={(e) => setWidth(e.target.value)}
-                      className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
-                      placeholder="10"
+                    <textarea
+                      rows={6}
+                      value={outlineText}
+                      onChange={(e) => setOutlineText(e.target.value)}
+                      className="w-full rounded-lg border border-gray-300 px-4 py-3 font-mono text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
                     />
+                    {polygon?.error === null && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Khung bao {polygon.width.toFixed(2)} ×{" "}
+                        {polygon.height.toFixed(2)} m
+                      </p>
+                    )}
                   </div>
-                  <div>
-                    <label className="mb-2 block text-sm text-gray-600">
-                      Chiều dọc (m)
-                    </label>
-                    <input
-                      type="number"
-                      step="0.1"
-                      min={1}
-                      value={height}
-                      onChange={(e) => setHeight(e.target.value)}
-                      className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
-                      placeholder="8"
-                    />
+                ) : (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="mb-2 block text-sm text-gray-600">
+                        Chiều ngang (m)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.1"
+                        min={1}
+                        value={width}
+                        onChange={(e) => setWidth(e.target.value)}
+                        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
+                        placeholder="10"
+                      />
+                    </div>
+                    <div>
+                      <label className="mb-2 block text-sm text-gray-600">
+                        Chiều dọc (m)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.1"
+                        min={1}
+                        value={height}
+                        onChange={(e) => setHeight(e.target.value)}
+                        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
+                        placeholder="8"
+                      />
+                    </div>
+                    {shape === "L" && (
+                      <>
+                        <div>
+                          <label className="mb-2 block text-sm text-gray-600">
+                            Khuyết góc Đông Bắc — ngang (m)
+                          </label>
+                          <input
+                            type="number"
+                            step="0.1"
+                            min={0.5}
+                            value={cutW}
+                            onChange={(e) => setCutW(e.target.value)}
+                            className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
+                          />
+                        </div>
+                        <div>
+                          <label className="mb-2 block text-sm text-gray-600">
+                            Khuyết góc Đông Bắc — dọc (m)
+                          </label>
+                          <input
+                            type="number"
+                            step="0.1"
+                            min={0.5}
+                            value={cutH}
+                            onChange={(e) => setCutH(e.target.value)}
+                            className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
+                          />
+                        </div>
+                      </>
+                    )}
+                    {shape === "trapezoid" && (
+                      <div className="col-span-2">
+                        <label className="mb-2 block text-sm text-gray-600">
+                          Chiều ngang cạnh Bắc (m)
+                        </label>
+                        <input
+                          type="number"
+                          step="0.1"
+                          min={0.5}
+                          value={topWidth}
+                          onChange={(e) => setTopWidth(e.target.value)}
+                          className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
+                        />
+                      </div>
+                    )}
                   </div>
-                </div>
+                )}
                 <div className="grid grid-cols-2 gap-2 text-xs">
                   <div className="rounded-lg bg-blue-50 border border-blue-200 p-3 text-blue-700">
                     Tổng diện tích:{" "}
@@ -264,19 +928,37 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="mb-2 block text-sm text-gray-600">
-                      Hướng cửa
+                      {polygon ? "Cạnh đặt cửa" : "Hướng cửa"}
                     </label>
-                    <select
-                      value={mainEdge}
-                      onChange={(e) => setMainEdge(e.target.value as Edge)}
-                      className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
-                    >
-                      {edges.map((e) => (
-                        <option key={e} value={e} className="bg-white">
-                          {edgeLabels[e]}
-                        </option>
-                      ))}
-                    </select>
+                    {polygon ? (
+                      <select
+                        value={mainEdgeIndex}
+                        onChange={(e) =>
+                          setMainEdgeIndex(Number(e.target.value))
+                        }
+                        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
+                      >
+                        {polygonEdges.map((edge, k) => (
+                          <option key={k} value={k} className="bg-white">
+                            Cạnh {k + 1} —{" "}
+                            {edgeLabels[dominantSide(edge.normal)]}, dài{" "}
+                            {edge.length.toFixed(2)}m
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <select
+                        value={mainEdge}
+                        onChange={(e) => setMainEdge(e.target.value as Edge)}
+                        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-300 transition"
+                      >
+                        {edges.map((e) => (
+                          <option key={e} value={e} className="bg-white">
+                            {edgeLabels[e]}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                   </div>
                   <div>
                     <label className="mb-2 block text-sm text-gray-600">
@@ -295,7 +977,9 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
                 </div>
                 <div>
                   <label className="mb-2 block text-sm text-gray-600">
-                    Vị trí trên cạnh (m)
+                    {polygon
+                      ? "Khoảng cách từ đỉnh đầu cạnh (m)"
+                      : "Vị trí trên cạnh (m)"}
                   </label>
                   <input
                     type="number"
@@ -321,12 +1005,12 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
                   Cấu hình tường
                 </h2>
                 <p className="text-sm text-gray-600">
-                  Thiết lập độ dày tường ngoài và tường phòng
+                  Thiết lập độ dày tường ngoài, tường phòng và bề rộng hành lang
                 </p>
               </div>
             </div>
 
-            <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
               <div>
                 <label className="mb-2 block text-sm text-gray-600">
                   Độ dày tường ngoài (m)
@@ -360,6 +1044,25 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
                 />
                 <p className="mt-1 text-xs text-gray-500">Khuyến nghị: 0.1m</p>
               </div>
+
+              <div>
+                <label className="mb-2 block text-sm text-gray-600">
+                  Bề rộng hành lang (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min={0.8}
+                  max={3}
+                  value={corridorWidth}
+                  onChange={(e) => setCorridorWidth(e.target.value)}
+                  className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-500 focus:border-orange-500 focus:outline-none focus:ring-2 focus:ring-orange-300 transition"
+                  placeholder="Mặc định"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Tối thiểu 0.8m, bỏ trống để dùng mặc định
+                </p>
+              </div>
             </div>
 
             <div className="mt-4 rounded-lg bg-orange-50 border border-orange-200 p-4">
@@ -399,20 +1102,171 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
                 <div>
                   <h2 className="text-xl font-semibold text-gray-900">Phòng</h2>
                   <p className="text-sm text-gray-600">
-                    Thêm các phòng (không cấu hình cửa phòng)
+                    Thêm các phòng và cấu hình cửa cho từng phòng
                   </p>
                 </div>
               </div>
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Phân bổ diện tích
+                  <select
+                    value={allocationProfile}
+                    onChange={(e) => setAllocationProfile(e.target.value)}
+                    className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none transition"
+                  >
+                    {profiles.map((p) => (
+                      <option key={p} value={p} className="bg-white">
+                        {profileLabels[p] ?? p}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Cách xếp
+                  <select
+                    value={solver}
+                    onChange={(e) => setSolver(e.target.value as SolverKind)}
+                    className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none transition"
+                  >
+                    {(Object.keys(solverLabels) as SolverKind[]).map((k) => (
+                      <option key={k} value={k} className="bg-white">
+                        {solverLabels[k]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  Seed
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={seed}
+                    onChange={(e) => setSeed(e.target.value)}
+                    className="w-28 rounded-lg border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:outline-none transition"
+                    placeholder="Ngẫu nhiên"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSeed(String(randomSeed()))}
+                    title="Tạo seed mới"
+                    className="rounded-lg border border-gray-300 px-2 py-2 hover:cursor-pointer hover:bg-gray-100"
+                  >
+                    🎲
+                  </button>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={autoDoors}
+                    onChange={(e) => setAutoDoors(e.target.checked)}
+                    className="h-4 w-4 accent-blue-600"
+                  />
+                  Tự động thêm cửa giữa các phòng
+                </label>
+                <button
+                  type="button"
+                  onClick={addRoom}
+                  className="flex items-center gap-2 rounded-lg bg-blue-600 hover:cursor-pointer hover:bg-blue-700 px-4 py-2.5 text-sm font-medium text-white shadow transition-colors"
+                >
+                  <span>➕</span>
+                  Thêm phòng
+                </button>
+              </div>
+            </div>
+
+            <div className="mb-4 flex flex-wrap items-center gap-2">
+              {storeys.map((storey, idx) => (
+                <div
+                  key={storey.id}
+                  className={`flex items-center rounded-lg border text-sm ${
+                    idx === activeStorey
+                      ? "border-blue-600 bg-blue-50 text-blue-700"
+                      : "border-gray-300 text-gray-700"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setActiveStorey(idx)}
+                    className="px-3 py-1.5 hover:cursor-pointer"
+                  >
+                    {storey.name} ({storey.rooms.length})
+                  </button>
+                  {idx > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => removeStorey(idx)}
+                      title={`Xoá ${storey.name}`}
+                      className="pr-2 text-gray-400 hover:cursor-pointer hover:text-red-600"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
               <button
                 type="button"
-                onClick={addRoom}
-                className="flex items-center gap-2 rounded-lg bg-blue-600 hover:cursor-pointer hover:bg-blue-700 px-4 py-2.5 text-sm font-medium text-white shadow transition-colors"
+                onClick={addStorey}
+                className="rounded-lg border border-dashed border-gray-400 px-3 py-1.5 text-sm text-gray-700 hover:cursor-pointer hover:bg-gray-100"
               >
-                <span>➕</span>
-                Thêm phòng
+                ➕ Thêm tầng
               </button>
             </div>
 
+            {storeys.length > 1 && (
+              <div className="mb-6 flex flex-wrap items-center gap-4 rounded-lg bg-stone-50 p-4 text-sm text-gray-700">
+                <span className="font-medium">
+                  🪜 Cầu thang (chung mọi tầng)
+                </span>
+                <label className="flex items-center gap-2">
+                  Rộng
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={stairWidth}
+                    onChange={(e) => setStairWidth(e.target.value)}
+                    className="w-20 rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none transition"
+                  />
+                  m
+                </label>
+                <label className="flex items-center gap-2">
+                  Dài
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={stairLength}
+                    onChange={(e) => setStairLength(e.target.value)}
+                    className="w-20 rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none transition"
+                  />
+                  m
+                </label>
+                <label className="flex items-center gap-2">
+                  Tâm x
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={stairX}
+                    onChange={(e) => setStairX(e.target.value)}
+                    placeholder="Tự động"
+                    className="w-24 rounded-lg border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:outline-none transition"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  y
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={stairY}
+                    onChange={(e) => setStairY(e.target.value)}
+                    placeholder="Tự động"
+                    className="w-24 rounded-lg border border-gray-300 px-3 py-2 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:outline-none transition"
+                  />
+                </label>
+                <span className="text-xs text-gray-500">
+                  Toạ độ tính từ tâm sàn (m); bỏ trống để đặt ở góc xa cửa chính
+                </span>
+              </div>
+            )}
+
             {rooms.length === 0 ? (
               <div className="rounded-lg border-2 border-dashed border-gray-300 bg-gray-50 p-8 text-center">
                 <div className="mx-auto mb-4 h-16 w-16 rounded-full bg-gray-100 flex items-center justify-center text-2xl">
@@ -426,7 +1280,7 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
             ) : (
               <div className="space-y-6">
                 {rooms.map((room, idx) => {
-                  const roomType = roomTypes.find((t) => t.value === room.type);
+                  const roomType = roomTypes.find((t) => t.type === room.type);
                   return (
                     <div
                       key={room.id}
@@ -442,22 +1296,53 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
                             <select
                               value={room.type}
                               onChange={(e) =>
-                                updateRoom(room.id, {
-                                  type: e.target.value as RoomType,
-                                })
+                                updateRoom(
+                                  room.id,
+                                  {
+                                    type: e.target.value,
+                                    // Mẫu và khoảng diện tích khác nhau theo loại
+                                    size: undefined,
+                                  },
+                                  "Đổi loại phòng"
+                                )
                               }
                               className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none transition"
                             >
                               {roomTypes.map((t) => (
                                 <option
-                                  key={t.value}
-                                  value={t.value}
+                                  key={t.type}
+                                  value={t.type}
                                   className="bg-white"
                                 >
                                   {t.icon} {t.label}
                                 </option>
                               ))}
                             </select>
+                            {/* Ràng buộc vị trí: sát một cạnh hoặc ở một góc sàn */}
+                            <select
+                              value={room.attach ?? ""}
+                              onChange={(e) =>
+                                updateRoom(
+                                  room.id,
+                                  {
+                                    attach:
+                                      (e.target.value as RoomAttach) ||
+                                      undefined,
+                                  },
+                                  `Đổi vị trí ${roomLabel(room.id)}`
+                                )
+                              }
+                              className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none transition"
+                            >
+                              <option value="">📍 Vị trí tự do</option>
+                              {(Object.keys(ATTACH_LABELS) as RoomAttach[]).map(
+                                (attach) => (
+                                  <option key={attach} value={attach}>
+                                    📍 {ATTACH_LABELS[attach]}
+                                  </option>
+                                )
+                              )}
+                            </select>
                           </div>
                         </div>
                         <button
@@ -468,6 +1353,33 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
                           🗑️ Xóa
                         </button>
                       </div>
+
+                      <RoomSizeEditor
+                        size={room.size}
+                        roomType={roomType}
+                        onChange={(size) =>
+                          updateRoom(
+                            room.id,
+                            { size },
+                            `Sửa kích thước ${roomLabel(room.id)}`,
+                            `size:${room.id}`
+                          )
+                        }
+                      />
+
+                      <RoomDoorEditor
+                        doors={room.doors}
+                        roomSize={
+                          fixedRoomSize(room, roomType) ??
+                          roomType?.size ?? { w: 4, h: 4 }
+                        }
+                        color={roomType?.color}
+                        onAdd={() => addDoor(room.id)}
+                        onUpdate={(doorId, patch) =>
+                          updateDoor(room.id, doorId, patch)
+                        }
+                        onRemove={(doorId) => removeDoor(room.id, doorId)}
+                      />
                     </div>
                   );
                 })}
@@ -513,7 +1425,9 @@ const FloorForm = ({ onSubmit, canvasRef }: Props) => {
               <p>
                 ✅ Phòng:{" "}
                 <span className="text-green-600 font-semibold">
-                  {rooms.length} phòng
+                  {storeys.reduce((n, storey) => n + storey.rooms.length, 0)}{" "}
+                  phòng
+                  {storeys.length > 1 && ` · ${storeys.length} tầng`}
                 </span>
               </p>
             </div>
@@ -0,0 +1,72 @@
+"use client";
+
+import React from "react";
+
+interface Props {
+  entries: Array<{ label: string }>;
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+// Danh sách các bước đã làm; bấm một bước để quay về trạng thái sau bước đó
+// (các bước phía sau hiện mờ và vẫn làm lại được cho tới khi có thao tác mới)
+const HistoryPanel = ({
+  entries,
+  index,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump,
+}: Props) => (
+  <div className="rounded-lg border bg-white p-4 shadow">
+    <div className="mb-3 flex items-center justify-between">
+      <h2 className="text-lg font-semibold text-gray-900">Lịch sử</h2>
+      <div className="flex gap-2 text-sm">
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={!canUndo}
+          title="Ctrl+Z"
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-gray-700 hover:cursor-pointer hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          ↶ Hoàn tác
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={!canRedo}
+          title="Ctrl+Shift+Z"
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-gray-700 hover:cursor-pointer hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          ↷ Làm lại
+        </button>
+      </div>
+    </div>
+    <ol className="max-h-48 space-y-1 overflow-y-auto text-sm">
+      {entries.map((entry, idx) => (
+        <li key={idx}>
+          <button
+            type="button"
+            onClick={() => onJump(idx)}
+            className={`w-full rounded-md px-3 py-1 text-left hover:cursor-pointer ${
+              idx === index
+                ? "bg-blue-600 text-white"
+                : idx > index
+                  ? "text-gray-400 hover:bg-gray-100"
+                  : "text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            {idx + 1}. {entry.label}
+          </button>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default HistoryPanel;
@@ -0,0 +1,120 @@
+"use client";
+
+import React from "react";
+import type { LayoutResult } from "@/utils/GenerateLayout";
+
+interface Props {
+  layout: LayoutResult;
+  index: number;
+  active?: boolean;
+  onSelect: () => void;
+}
+
+const THUMB_W = 180;
+const THUMB_H = 120;
+const THUMB_PAD = 8;
+
+// Hình thu nhỏ của một phương án: tường ngoài, hành lang, các phòng và cửa chính
+// (nhà nhiều tầng vẽ tầng 1)
+const LayoutThumbnail = ({
+  layout,
+  index,
+  active = false,
+  onSelect,
+}: Props) => {
+  const { width, height, mainDoor, outline } = layout.floor;
+  const scale = Math.min(
+    (THUMB_W - 2 * THUMB_PAD) / width,
+    (THUMB_H - 2 * THUMB_PAD) / height
+  );
+  // Gốc toạ độ ở tâm sàn; SVG có trục y hướng xuống
+  const sx = (x: number) => THUMB_W / 2 + x * scale;
+  const sy = (y: number) => THUMB_H / 2 - y * scale;
+  const score = layout.score?.total;
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={`flex flex-col items-stretch rounded-lg border-2 bg-white p-2 text-left transition-colors hover:cursor-pointer ${
+        active ? "border-blue-600" : "border-gray-200 hover:border-gray-400"
+      }`}
+    >
+      <svg
+        width={THUMB_W}
+        height={THUMB_H}
+        viewBox={`0 0 ${THUMB_W} ${THUMB_H}`}
+      >
+        {outline ? (
+          <polygon
+            points={outline.map((p) => `${sx(p.x)},${sy(p.y)}`).join(" ")}
+            fill="#fafafa"
+            stroke="#555"
+            strokeWidth={2}
+          />
+        ) : (
+          <rect
+            x={sx(-width / 2)}
+            y={sy(height / 2)}
+            width={width * scale}
+            height={height * scale}
+            fill="#fafafa"
+            stroke="#555"
+            strokeWidth={2}
+          />
+        )}
+        {(layout.corridors ?? []).map((c) => (
+          <rect
+            key={c.id}
+            x={sx(c.x - c.w / 2)}
+            y={sy(c.y + c.h / 2)}
+            width={c.w * scale}
+            height={c.h * scale}
+            fill="#e5e7eb"
+          />
+        ))}
+        {layout.rooms.map((r) => (
+          <rect
+            key={r.id}
+            x={sx(r.x - r.w / 2)}
+            y={sy(r.y + r.h / 2)}
+            width={r.w * scale}
+            height={r.h * scale}
+            fill={r.color}
+            stroke="#8b8b8b"
+            strokeWidth={1}
+          />
+        ))}
+        <line
+          x1={sx(mainDoor.x1)}
+          y1={sy(mainDoor.y1)}
+          x2={sx(mainDoor.x2)}
+          y2={sy(mainDoor.y2)}
+          stroke="#e53935"
+          strokeWidth={3}
+        />
+      </svg>
+      <div className="mt-2 flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-900">
+          Phương án {index + 1}
+          {layout.storeys && (
+            <span className="font-normal text-gray-500">
+              {" "}
+              · {layout.storeys.length} tầng
+            </span>
+          )}
+        </span>
+        {score !== undefined && (
+          <span className="text-gray-600">{score.toFixed(0)}/100</span>
+        )}
+      </div>
+      {layout.warnings.length > 0 && (
+        <span className="text-xs text-amber-600">
+          ⚠️ {layout.warnings.length} cảnh báo
+        </span>
+      )}
+    </button>
+  );
+};
+
+export default LayoutThumbnail;
@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useState } from "react";
+import { searchProjects, type LibraryProject } from "@/utils/ProjectLibrary";
+
+interface Props {
+  entries: LibraryProject[];
+  activeId?: string;
+  onOpen: (entry: LibraryProject) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString("vi-VN", {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+
+// Danh sách dự án đã lưu trong trình duyệt; tìm theo tên, khách hàng hoặc
+// kích thước lô (vd. "8x12")
+const ProjectLibrary = ({
+  entries,
+  activeId,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: Props) => {
+  const [query, setQuery] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(
+    null
+  );
+  const shown = searchProjects(entries, query);
+
+  const commitRename = () => {
+    if (editing?.name.trim()) onRename(editing.id, editing.name.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border bg-white p-4 shadow">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Thư viện dự án ({entries.length})
+        </h2>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Tìm theo tên, khách hàng, lô 8x12..."
+          className="w-72 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-900"
+        />
+      </div>
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {entries.length
+            ? "Không có dự án nào khớp."
+            : "Chưa có dự án nào — bấm “Lưu vào thư viện” để thêm."}
+        </p>
+      ) : (
+        <ul className="max-h-64 divide-y overflow-y-auto text-sm">
+          {shown.map((entry) => {
+            const { metadata, input } = entry.file;
+            return (
+              <li
+                key={entry.id}
+                className={`flex items-center gap-3 px-2 py-2 ${
+                  entry.id === activeId ? "bg-blue-50" : ""
+                }`}
+              >
+                <div className="min-w-0 flex-1">
+                  {editing?.id === entry.id ? (
+                    <input
+                      autoFocus
+                      value={editing.name}
+                      onChange={(e) =>
+                        setEditing({ id: entry.id, name: e.target.value })
+                      }
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setEditing(null);
+                      }}
+                      className="w-full rounded border border-gray-300 px-2 py-0.5 text-gray-900"
+                    />
+                  ) : (
+                    <div className="truncate font-medium text-gray-900">
+                      {metadata.name}
+                    </div>
+                  )}
+                  <div className="truncate text-xs text-gray-500">
+                    {metadata.client && `${metadata.client} · `}
+                    Lô {input.floor.width}×{input.floor.height} m · sửa{" "}
+                    {formatDate(metadata.updatedAt)}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <button
+                    type="button"
+                    onClick={() => onOpen(entry)}
+                    className="rounded-md border border-gray-300 px-2 py-1 text-gray-700 hover:cursor-pointer hover:bg-gray-100"
+                  >
+                    Mở
+                  </button>
+                  <button
+                    type="button"
+                    title="Đổi tên"
+                    onClick={() =>
+                      setEditing({ id: entry.id, name: metadata.name })
+                    }
+                    className="rounded-md px-2 py-1 hover:cursor-pointer hover:bg-gray-100"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    type="button"
+                    title="Nhân bản"
+                    onClick={() => onDuplicate(entry.id)}
+                    className="rounded-md px-2 py-1 hover:cursor-pointer hover:bg-gray-100"
+                  >
+                    📄
+                  </button>
+                  <button
+                    type="button"
+                    title="Xoá"
+                    onClick={() => {
+                      if (window.confirm(`Xoá dự án “${metadata.name}”?`)) {
+                        onDelete(entry.id);
+                      }
+                    }}
+                    className="rounded-md px-2 py-1 hover:cursor-pointer hover:bg-red-50"
+                  >
+                    🗑️
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useRef } from "react";
+
+interface Props {
+  name: string;
+  client: string;
+  onNameChange: (name: string) => void;
+  onClientChange: (client: string) => void;
+  onSave: () => void;
+  onOpen: (file: File) => void;
+  onSaveToLibrary: () => void;
+  libraryOpen: boolean;
+  onToggleLibrary: () => void;
+}
+
+// Tên dự án, khách hàng; lưu / mở tệp dự án (.json) và thư viện trong trình
+// duyệt
+const ProjectToolbar = ({
+  name,
+  client,
+  onNameChange,
+  onClientChange,
+  onSave,
+  onOpen,
+  onSaveToLibrary,
+  libraryOpen,
+  onToggleLibrary,
+}: Props) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-3 rounded-lg border bg-white p-4 shadow">
+      <label className="flex flex-1 items-center gap-2 text-sm text-gray-700">
+        <span className="font-medium">Dự án</span>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => onNameChange(e.target.value)}
+          placeholder="Tên dự án"
+          className="min-w-0 flex-1 rounded-lg border border-gray-300 px-3 py-1.5 text-gray-900"
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <span className="font-medium">Khách hàng</span>
+        <input
+          type="text"
+          value={client}
+          onChange={(e) => onClientChange(e.target.value)}
+          placeholder="Tên khách hàng"
+          className="w-48 rounded-lg border border-gray-300 px-3 py-1.5 text-gray-900"
+        />
+      </label>
+      <div className="flex flex-wrap gap-2 text-sm">
+        <button
+          type="button"
+          onClick={onSaveToLibrary}
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-gray-700 hover:cursor-pointer hover:bg-gray-100"
+        >
+          📚 Lưu vào thư viện
+        </button>
+        <button
+          type="button"
+          onClick={onToggleLibrary}
+          className={`rounded-lg border px-3 py-1.5 hover:cursor-pointer ${
+            libraryOpen
+              ? "border-blue-600 bg-blue-600 text-white"
+              : "border-gray-300 text-gray-700 hover:bg-gray-100"
+          }`}
+        >
+          Thư viện
+        </button>
+        <button
+          type="button"
+          onClick={onSave}
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-gray-700 hover:cursor-pointer hover:bg-gray-100"
+        >
+          💾 Xuất tệp
+        </button>
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-gray-700 hover:cursor-pointer hover:bg-gray-100"
+        >
+          📂 Mở tệp
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            // Cho phép mở lại cùng một tệp
+            e.target.value = "";
+            if (file) onOpen(file);
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ProjectToolbar;
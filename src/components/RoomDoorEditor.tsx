@@ -0,0 +1,234 @@
+"use client";
+
+import React from "react";
+import type { DoorInput, Edge } from "./FloorForm";
+
+interface Props {
+  doors: DoorInput[];
+  roomSize: { w: number; h: number };
+  color?: string;
+  onAdd: () => void;
+  onUpdate: (doorId: string, patch: Partial<DoorInput>) => void;
+  onRemove: (doorId: string) => void;
+}
+
+const sides: { value: Edge; label: string }[] = [
+  { value: "N", label: "Bắc (N)" },
+  { value: "E", label: "Đông (E)" },
+  { value: "S", label: "Nam (S)" },
+  { value: "W", label: "Tây (W)" },
+];
+
+const PREVIEW_W = 160;
+const PREVIEW_H = 120;
+const PREVIEW_PAD = 16;
+
+// Cùng công thức với createWallWithDoorOpening trong Floor2DCanvas
+const doorSpan = (door: DoorInput, along: number) => {
+  const width = Number.isFinite(door.width) ? door.width : 0.6;
+  const ratio = Number.isFinite(door.offsetRatio) ? door.offsetRatio : 0;
+  const doorW = Math.max(0.6, Math.min(width, along - 0.05));
+  const maxOff = Math.max(0, along - doorW);
+  const off = Math.max(0, Math.min(1, ratio)) * maxOff;
+  return { start: off, end: off + doorW };
+};
+
+const DoorPreview = ({
+  doors,
+  roomSize,
+  color = "#f5f5f5",
+}: Pick<Props, "doors" | "roomSize" | "color">) => {
+  const scale = Math.min(
+    (PREVIEW_W - 2 * PREVIEW_PAD) / roomSize.w,
+    (PREVIEW_H - 2 * PREVIEW_PAD) / roomSize.h
+  );
+  const rw = roomSize.w * scale;
+  const rh = roomSize.h * scale;
+  const left = (PREVIEW_W - rw) / 2;
+  const top = (PREVIEW_H - rh) / 2;
+
+  return (
+    <svg
+      width={PREVIEW_W}
+      height={PREVIEW_H}
+      viewBox={`0 0 ${PREVIEW_W} ${PREVIEW_H}`}
+      className="shrink-0 rounded-lg border border-gray-200 bg-white"
+    >
+      <rect
+        x={left}
+        y={top}
+        width={rw}
+        height={rh}
+        fill={color}
+        stroke="#8b8b8b"
+        strokeWidth={4}
+      />
+      {doors.map((door) => {
+        const horizontal = door.side === "N" || door.side === "S";
+        const along = horizontal ? roomSize.w : roomSize.h;
+        const { start, end } = doorSpan(door, along);
+
+        // SVG có trục y hướng xuống: cạnh N ở trên, offset E/W tính từ dưới lên
+        const coords = horizontal
+          ? {
+              x1: left + start * scale,
+              x2: left + end * scale,
+              y1: door.side === "N" ? top : top + rh,
+              y2: door.side === "N" ? top : top + rh,
+            }
+          : {
+              x1: door.side === "W" ? left : left + rw,
+              x2: door.side === "W" ? left : left + rw,
+              y1: top + rh - start * scale,
+              y2: top + rh - end * scale,
+            };
+
+        return (
+          <g key={door.id}>
+            <line {...coords} stroke="#ffffff" strokeWidth={6} />
+            <line {...coords} stroke="#1d4ed8" strokeWidth={3} />
+          </g>
+        );
+      })}
+      <text
+        x={PREVIEW_W / 2}
+        y={10}
+        fontSize={9}
+        textAnchor="middle"
+        fill="#6b7280"
+      >
+        N
+      </text>
+      <text
+        x={PREVIEW_W / 2}
+        y={PREVIEW_H - 3}
+        fontSize={9}
+        textAnchor="middle"
+        fill="#6b7280"
+      >
+        S
+      </text>
+      <text x={4} y={PREVIEW_H / 2 + 3} fontSize={9} fill="#6b7280">
+        W
+      </text>
+      <text
+        x={PREVIEW_W - 10}
+        y={PREVIEW_H / 2 + 3}
+        fontSize={9}
+        fill="#6b7280"
+      >
+        E
+      </text>
+    </svg>
+  );
+};
+
+const RoomDoorEditor = ({
+  doors,
+  roomSize,
+  color,
+  onAdd,
+  onUpdate,
+  onRemove,
+}: Props) => {
+  return (
+    <div className="mt-4 flex flex-col gap-4 border-t border-gray-200 pt-4 md:flex-row">
+      <div className="flex-1 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-700">
+            🚪 Cửa phòng ({doors.length})
+          </h4>
+          <button
+            type="button"
+            onClick={onAdd}
+            className="rounded-lg border border-blue-300 bg-blue-50 px-3 py-1.5 text-xs font-medium text-blue-700 transition-colors hover:cursor-pointer hover:bg-blue-100"
+          >
+            ➕ Thêm cửa
+          </button>
+        </div>
+
+        {doors.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            Chưa có cửa nhập tay cho phòng này
+          </p>
+        ) : (
+          doors.map((door, idx) => (
+            <div
+              key={door.id}
+              className="grid grid-cols-[auto_1fr_1fr_1.5fr_auto] items-end gap-3 rounded-lg border border-gray-200 bg-white p-3"
+            >
+              <div className="pb-2 text-xs font-semibold text-gray-500">
+                #{idx + 1}
+              </div>
+              <div>
+                <label className="mb-1 block text-xs text-gray-600">Cạnh</label>
+                <select
+                  value={door.side}
+                  onChange={(e) =>
+                    onUpdate(door.id, { side: e.target.value as Edge })
+                  }
+                  className="w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:outline-none"
+                >
+                  {sides.map((s) => (
+                    <option key={s.value} value={s.value}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="mb-1 block text-xs text-gray-600">
+                  Bề rộng (m)
+                </label>
+                <input
+                  type="number"
+                  step="0.05"
+                  min={0.6}
+                  value={Number.isFinite(door.width) ? door.width : ""}
+                  onChange={(e) =>
+                    onUpdate(door.id, { width: parseFloat(e.target.value) })
+                  }
+                  className="w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-xs text-gray-600">
+                  Vị trí trên cạnh: {(door.offsetRatio * 100).toFixed(0)}%
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={door.offsetRatio}
+                  onChange={(e) =>
+                    onUpdate(door.id, {
+                      offsetRatio: parseFloat(e.target.value),
+                    })
+                  }
+                  className="w-full"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => onRemove(door.id)}
+                className="rounded-lg border border-red-300 bg-red-50 px-2 py-1.5 text-xs text-red-600 transition-colors hover:cursor-pointer hover:bg-red-100"
+              >
+                ✕
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex flex-col items-center gap-1">
+        <DoorPreview doors={doors} roomSize={roomSize} color={color} />
+        <span className="text-[11px] text-gray-500">
+          Xem trước ({roomSize.w}×{roomSize.h}m)
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default RoomDoorEditor;
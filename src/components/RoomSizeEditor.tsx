@@ -0,0 +1,172 @@
+"use client";
+
+import React from "react";
+import type { RoomSizeInput } from "./FloorForm";
+import type { RoomTypeInfo } from "@/utils/GenerateLayout";
+
+interface Props {
+  size?: RoomSizeInput;
+  roomType?: RoomTypeInfo;
+  onChange: (size: RoomSizeInput | undefined) => void;
+}
+
+// auto: để bộ sinh tự chọn; area: diện tích mục tiêu/khoảng diện tích;
+// dims: rộng × dài cố định; preset: một mẫu kích thước của loại phòng
+type SizeMode = "auto" | "area" | "dims" | "preset";
+
+const modeLabels: Record<SizeMode, string> = {
+  auto: "Tự động",
+  area: "Theo diện tích",
+  dims: "Rộng × dài",
+  preset: "Theo mẫu",
+};
+
+const modeOf = (size?: RoomSizeInput): SizeMode => {
+  if (!size) return "auto";
+  if (size.width !== undefined || size.height !== undefined) return "dims";
+  if (size.preset !== undefined) return "preset";
+  return "area";
+};
+
+// Ô trống nghĩa là không giới hạn
+const parseOptional = (value: string) => {
+  const v = parseFloat(value);
+  return Number.isFinite(v) ? v : undefined;
+};
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-900 placeholder-gray-400 focus:border-blue-500 focus:outline-none";
+
+const NumberField = ({
+  label,
+  value,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  value?: number;
+  placeholder?: string;
+  onChange: (value: number | undefined) => void;
+}) => (
+  <div>
+    <label className="mb-1 block text-xs text-gray-600">{label}</label>
+    <input
+      type="number"
+      step="0.1"
+      min={0}
+      value={value ?? ""}
+      placeholder={placeholder}
+      onChange={(e) => onChange(parseOptional(e.target.value))}
+      className={inputClass}
+    />
+  </div>
+);
+
+// Yêu cầu kích thước của một phòng: diện tích, kích thước cố định hoặc mẫu
+const RoomSizeEditor = ({ size, roomType, onChange }: Props) => {
+  const mode = modeOf(size);
+  const range = roomType
+    ? `${roomType.area.min}–${roomType.area.max}m²`
+    : undefined;
+
+  const setMode = (next: SizeMode) => {
+    if (next === "auto") onChange(undefined);
+    else if (next === "area") onChange({});
+    else if (next === "dims") {
+      onChange({ width: roomType?.size.w, height: roomType?.size.h });
+    } else onChange({ preset: 0 });
+  };
+
+  return (
+    <div className="mt-4 space-y-3 border-t border-gray-200 pt-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-sm font-medium text-gray-700">📐 Kích thước</h4>
+        <div className="flex gap-1">
+          {(Object.keys(modeLabels) as SizeMode[])
+            .filter((m) => m !== "preset" || roomType?.presets.length)
+            .map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMode(m)}
+                className={`rounded-lg border px-3 py-1.5 text-xs font-medium transition-colors hover:cursor-pointer ${
+                  mode === m
+                    ? "border-blue-600 bg-blue-50 text-blue-700"
+                    : "border-gray-300 text-gray-600 hover:bg-gray-100"
+                }`}
+              >
+                {modeLabels[m]}
+              </button>
+            ))}
+        </div>
+      </div>
+
+      {mode === "auto" && (
+        <p className="text-xs text-gray-500">
+          Kích thước do bộ sinh chọn theo hồ sơ phân bổ
+          {range && ` (loại phòng này: ${range})`}
+        </p>
+      )}
+
+      {mode === "area" && (
+        <div className="grid grid-cols-3 gap-3">
+          <NumberField
+            label="Diện tích mục tiêu (m²)"
+            value={size?.area}
+            placeholder="Tự động"
+            onChange={(area) => onChange({ ...size, area })}
+          />
+          <NumberField
+            label="Tối thiểu (m²)"
+            value={size?.minArea}
+            placeholder={roomType ? String(roomType.area.min) : undefined}
+            onChange={(minArea) => onChange({ ...size, minArea })}
+          />
+          <NumberField
+            label="Tối đa (m²)"
+            value={size?.maxArea}
+            placeholder={roomType ? String(roomType.area.max) : undefined}
+            onChange={(maxArea) => onChange({ ...size, maxArea })}
+          />
+        </div>
+      )}
+
+      {mode === "dims" && (
+        <div className="grid grid-cols-3 items-end gap-3">
+          <NumberField
+            label="Rộng (m)"
+            value={size?.width}
+            onChange={(width) => onChange({ ...size, width })}
+          />
+          <NumberField
+            label="Dài (m)"
+            value={size?.height}
+            onChange={(height) => onChange({ ...size, height })}
+          />
+          <p className="pb-2 text-xs text-gray-500">
+            {size?.width && size.height
+              ? `${(size.width * size.height).toFixed(1)}m²`
+              : "--"}
+            {range && ` (cho phép ${range})`}
+          </p>
+        </div>
+      )}
+
+      {mode === "preset" && roomType && (
+        <select
+          value={size?.preset ?? 0}
+          onChange={(e) => onChange({ preset: Number(e.target.value) })}
+          className={inputClass}
+        >
+          {roomType.presets.map((p, idx) => (
+            <option key={idx} value={idx}>
+              {p.w} × {p.h}m ({p.area}m²)
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default RoomSizeEditor;
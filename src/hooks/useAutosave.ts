@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react";
+
+// Mặc định tự lưu mỗi 5 giây
+export const AUTOSAVE_MS = 5000;
+
+// Định kỳ gọi save với giá trị mới nhất, chỉ khi giá trị đã đổi (so sánh
+// tham chiếu) kể từ lần lưu trước. Giá trị lúc mount coi như đã lưu.
+export const useAutosave = <T>(
+  value: T,
+  save: (value: T) => Promise<void>,
+  intervalMs = AUTOSAVE_MS
+) => {
+  const latestRef = useRef(value);
+  const savedRef = useRef(value);
+  const saveRef = useRef(save);
+  useEffect(() => {
+    latestRef.current = value;
+    saveRef.current = save;
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const value = latestRef.current;
+      if (value === savedRef.current) return;
+      savedRef.current = value;
+      saveRef
+        .current(value)
+        .catch((error) => console.error("❌ Autosave failed:", error));
+    }, intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+};
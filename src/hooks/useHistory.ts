@@ -0,0 +1,137 @@
+import { useCallback, useReducer } from "react";
+
+export interface HistoryEntry<T> {
+  label: string;
+  state: T;
+  // Thời điểm ghi (ms) và khoá gộp: các bước liên tiếp cùng khoá trong
+  // khoảng gộp (mặc định COALESCE_MS) được gộp thành một bước
+  at: number;
+  coalesce?: string;
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+type HistoryAction<T> =
+  | {
+      type: "push";
+      label: string;
+      update: (prev: T) => T;
+      coalesce?: string;
+      coalesceMs: number;
+      at: number;
+    }
+  | { type: "replace"; update: (prev: T) => T }
+  | { type: "jump"; index: number }
+  | { type: "step"; delta: number };
+
+const COALESCE_MS = 800;
+const HISTORY_LIMIT = 100;
+
+const historyReducer = <T>(
+  history: HistoryState<T>,
+  action: HistoryAction<T>
+): HistoryState<T> => {
+  const current = history.entries[history.index];
+  switch (action.type) {
+    case "push": {
+      const state = action.update(current.state);
+      if (state === current.state) return history;
+      // Bước mới bỏ nhánh redo phía sau bước hiện tại
+      const kept = history.entries.slice(0, history.index + 1);
+      if (
+        action.coalesce &&
+        history.index > 0 &&
+        current.coalesce === action.coalesce &&
+        action.at - current.at < action.coalesceMs
+      ) {
+        kept[kept.length - 1] = { ...current, state, at: action.at };
+        return { entries: kept, index: kept.length - 1 };
+      }
+      const entries = [
+        ...kept,
+        {
+          label: action.label,
+          state,
+          at: action.at,
+          coalesce: action.coalesce,
+        },
+      ].slice(-HISTORY_LIMIT);
+      return { entries, index: entries.length - 1 };
+    }
+    case "replace": {
+      const state = action.update(current.state);
+      if (state === current.state) return history;
+      const entries = [...history.entries];
+      entries[history.index] = { ...current, state };
+      return { ...history, entries };
+    }
+    case "jump":
+    case "step": {
+      const target =
+        action.type === "jump" ? action.index : history.index + action.delta;
+      const index = Math.max(0, Math.min(history.entries.length - 1, target));
+      return index === history.index ? history : { ...history, index };
+    }
+  }
+};
+
+// Lịch sử thao tác dạng danh sách trạng thái: mỗi lệnh (kéo phòng, sửa
+// cửa, tạo lại, ...) ghi một bước có nhãn; hoàn tác/làm lại chỉ dời chỉ số.
+// push/replace nhận hàm cập nhật nên gọi nhiều lần trong một lượt vẫn đúng.
+export const useHistory = <T>(initial: T, initialLabel = "Bắt đầu") => {
+  const [history, dispatch] = useReducer(
+    historyReducer<T>,
+    undefined,
+    (): HistoryState<T> => ({
+      entries: [{ label: initialLabel, state: initial, at: 0 }],
+      index: 0,
+    })
+  );
+
+  // coalesceMs: khoảng gộp; Infinity khi khoá đã riêng cho một thao tác
+  // (vd. một lần kéo) để thao tác chậm vẫn chỉ là một bước
+  const push = useCallback(
+    (
+      label: string,
+      update: (prev: T) => T,
+      coalesce?: string,
+      coalesceMs = COALESCE_MS
+    ) =>
+      dispatch({
+        type: "push",
+        label,
+        update,
+        coalesce,
+        coalesceMs,
+        at: Date.now(),
+      }),
+    []
+  );
+  // Sửa trạng thái hiện tại mà không thêm bước (vd. chọn phương án khác)
+  const replace = useCallback(
+    (update: (prev: T) => T) => dispatch({ type: "replace", update }),
+    []
+  );
+  const jumpTo = useCallback(
+    (index: number) => dispatch({ type: "jump", index }),
+    []
+  );
+  const undo = useCallback(() => dispatch({ type: "step", delta: -1 }), []);
+  const redo = useCallback(() => dispatch({ type: "step", delta: 1 }), []);
+
+  return {
+    state: history.entries[history.index].state,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    push,
+    replace,
+    jumpTo,
+    undo,
+    redo,
+  };
+};
@@ -0,0 +1,110 @@
+import type { PlacedRoom } from "./GenerateLayout";
+import {
+  doorSpanOnSide,
+  sharedWall,
+  spansOverlap,
+  type Rect,
+} from "./RoomGeometry";
+
+// adjacent: mỗi phòng loại a phải có chung tường với ít nhất một phòng loại b
+// separate: phòng loại a không được chung tường với phòng loại b
+// noDoor:   không mở cửa giữa phòng loại a và phòng loại b
+export type AdjacencyRuleKind = "adjacent" | "separate" | "noDoor";
+
+export interface AdjacencyRule {
+  a: string;
+  b: string;
+  rule: AdjacencyRuleKind;
+}
+
+export interface AdjacencyViolation {
+  rule: AdjacencyRule;
+  room: PlacedRoom;
+  // Phòng vi phạm cùng (không có với luật adjacent)
+  partner?: PlacedRoom;
+}
+
+// Dùng khi room_preset.json không khai báo adjacencyRules
+export const DEFAULT_ADJACENCY_RULES: AdjacencyRule[] = [
+  { a: "wc", b: "bed", rule: "adjacent" },
+  { a: "kitchen", b: "living", rule: "adjacent" },
+  { a: "wc", b: "kitchen", rule: "noDoor" },
+];
+
+const RULE_KINDS = new Set<string>(["adjacent", "separate", "noDoor"]);
+const MIN_SHARED = 0.6; // tường chung phải đủ đặt một cửa
+const EPS = 0.05;
+
+export const isValidAdjacencyRule = (r: AdjacencyRule) =>
+  Boolean(r?.a && r.b && RULE_KINDS.has(r.rule));
+
+const pairMatches = (rule: AdjacencyRule, x: string, y: string) =>
+  (rule.a === x && rule.b === y) || (rule.a === y && rule.b === x);
+
+// Hai phòng "kề nhau" khi có tường chung đủ dài để mở một cửa
+export const roomsShareWall = (a: Rect, b: Rect, maxGap = EPS) => {
+  const wall = sharedWall(a, b, maxGap);
+  return Boolean(wall && wall.end - wall.start >= MIN_SHARED);
+};
+
+export const doorForbidden = (
+  rules: AdjacencyRule[],
+  typeA: string,
+  typeB: string
+) => rules.some((r) => r.rule === "noDoor" && pairMatches(r, typeA, typeB));
+
+// Các loại phòng mà phòng loại `type` muốn nằm kề / phải tách khỏi
+export const adjacentPartnerTypes = (rules: AdjacencyRule[], type: string) =>
+  rules.filter((r) => r.rule === "adjacent" && r.a === type).map((r) => r.b);
+
+export const separatedTypes = (rules: AdjacencyRule[], type: string) =>
+  rules
+    .filter((r) => r.rule === "separate" && (r.a === type || r.b === type))
+    .map((r) => (r.a === type ? r.b : r.a));
+
+// Có cửa của phòng a mở ra tường chung với phòng b không
+const hasDoorBetween = (a: PlacedRoom, b: PlacedRoom, maxGap: number) => {
+  const wall = sharedWall(a, b, maxGap);
+  if (!wall) return false;
+  return (a.rawDoors ?? []).some(
+    (d) =>
+      d.side === wall.side && spansOverlap(doorSpanOnSide(a, d), wall) > EPS
+  );
+};
+
+// Kiểm tra các luật trên bố cục. `checked` đếm số lần áp luật (theo từng
+// phòng loại a) để tính tỉ lệ thoả khi chấm điểm.
+export const evaluateAdjacency = (
+  rooms: PlacedRoom[],
+  rules: AdjacencyRule[],
+  maxGap = EPS
+) => {
+  let checked = 0;
+  const violations: AdjacencyViolation[] = [];
+
+  for (const rule of rules) {
+    const partners = rooms.filter((r) => r.type === rule.b);
+    if (!partners.length) continue;
+
+    for (const room of rooms.filter((r) => r.type === rule.a)) {
+      const others = partners.filter((p) => p.id !== room.id);
+      if (!others.length) continue;
+      checked++;
+
+      if (rule.rule === "adjacent") {
+        if (!others.some((p) => roomsShareWall(room, p, maxGap))) {
+          violations.push({ rule, room });
+        }
+        continue;
+      }
+      const partner = others.find((p) =>
+        rule.rule === "separate"
+          ? roomsShareWall(room, p, maxGap)
+          : hasDoorBetween(room, p, maxGap) || hasDoorBetween(p, room, maxGap)
+      );
+      if (partner) violations.push({ rule, room, partner });
+    }
+  }
+
+  return { checked, violations };
+};
@@ -0,0 +1,414 @@
+import type { PlacedDoor, PlacedRoom } from "./GenerateLayout";
+import type { AdjacencyRule } from "./AdjacencyRules";
+import { PASSAGE_TYPES, reachableRoomIds } from "./DoorSynthesis";
+import { rectBounds, sharedWall, type Rect } from "./RoomGeometry";
+import {
+  doorNormal,
+  rectInsidePolygon,
+  segmentCrossesRect,
+  type Point,
+} from "./FloorOutline";
+
+// Một đoạn hành lang thẳng (hình chữ nhật), các đoạn liên tiếp chồng lên
+// nhau ở chỗ rẽ
+export type PlacedCorridor = {
+  id: string;
+  x: number; // center (m)
+  y: number; // center (m)
+  w: number;
+  h: number;
+};
+
+export interface CorridorOptions {
+  usableW: number;
+  usableH: number;
+  // Bề rộng hành lang (m)
+  width: number;
+  mainDoor: PlacedDoor;
+  exteriorThickness: number;
+  // Bề dày tường trong: hành lang chừa khoảng này giữa nó và các phòng
+  wallThickness?: number;
+  adjacencyRules?: AdjacencyRule[];
+  // Vùng khả dụng của sàn đa giác (đã trừ tường ngoài) — ô ngoài vùng này
+  // không đặt hành lang
+  outline?: Point[];
+  // Tầng trên: lối vào là phòng này (cầu thang) thay cho cửa chính
+  entryRoomId?: string;
+  // Các loại phòng đi xuyên qua được (mặc định PASSAGE_TYPES)
+  passageTypes?: ReadonlySet<string>;
+}
+
+export interface CorridorResult {
+  corridors: PlacedCorridor[];
+  // Diện tích hành lang (m², không tính phần chồng ở chỗ rẽ)
+  area: number;
+}
+
+const GRID = 0.1;
+const TURN_PENALTY = 5; // mỗi lần rẽ tính như đi thêm 5 ô
+// Tường chung tối thiểu để mở cửa ra hành lang (cửa 0.6m + lề hai bên,
+// cộng thêm một khoảng dư để không rơi đúng ngưỡng của DoorSynthesis)
+const DOOR_NEED = 0.9;
+const WALL_GAP_EPS = 0.05; // cùng sai số nhận tường chung với DoorSynthesis
+const EPS = 1e-6;
+
+const DIRS = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+
+// Hàng đợi ưu tiên (binary heap) cho Dijkstra
+class MinHeap {
+  private keys: number[] = [];
+  private values: number[] = [];
+
+  get size() {
+    return this.keys.length;
+  }
+
+  push(key: number, value: number) {
+    const { keys, values } = this;
+    let i = keys.length;
+    keys.push(key);
+    values.push(value);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (keys[parent] <= key) break;
+      keys[i] = keys[parent];
+      values[i] = values[parent];
+      i = parent;
+    }
+    keys[i] = key;
+    values[i] = value;
+  }
+
+  pop(): [number, number] {
+    const { keys, values } = this;
+    const top: [number, number] = [keys[0], values[0]];
+    const lastKey = keys.pop()!;
+    const lastValue = values.pop()!;
+    if (keys.length) {
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        if (l >= keys.length) break;
+        const r = l + 1;
+        const c = r < keys.length && keys[r] < keys[l] ? r : l;
+        if (keys[c] >= lastKey) break;
+        keys[i] = keys[c];
+        values[i] = values[c];
+        i = c;
+      }
+      keys[i] = lastKey;
+      values[i] = lastValue;
+    }
+    return top;
+  }
+}
+
+// Đặt hành lang vào phần diện tích trống (ngân sách voidRatio) để nối cửa
+// chính tới mọi phòng mà không phải đi xuyên qua phòng ngủ/WC. Sàn được chia
+// lưới GRID; hành lang là chuỗi ô vuông cạnh `width` không chạm phòng nào, tìm
+// bằng Dijkstra có phạt rẽ, xuất phát từ cửa chính, các phòng làm lối đi đã
+// tới được và các đoạn hành lang đã có.
+export const routeCorridors = (
+  rooms: PlacedRoom[],
+  {
+    usableW,
+    usableH,
+    width,
+    mainDoor,
+    exteriorThickness,
+    wallThickness = 0,
+    adjacencyRules,
+    outline,
+    entryRoomId,
+    passageTypes = PASSAGE_TYPES,
+  }: CorridorOptions
+): CorridorResult => {
+  const corridors: PlacedCorridor[] = [];
+  const n = Math.max(1, Math.round(width / GRID));
+  const nx = Math.floor(usableW / GRID + EPS);
+  const ny = Math.floor(usableH / GRID + EPS);
+  if (!rooms.length || nx < n || ny < n) return { corridors, area: 0 };
+
+  const left = -usableW / 2,
+    bottom = -usableH / 2;
+  const cell = (i: number, j: number) => j * nx + i;
+  // Phòng tính cả tường bao quanh — hành lang chỉ được chạm mặt ngoài tường
+  const walled = rooms.map((r) => ({
+    ...r,
+    w: r.w + 2 * wallThickness,
+    h: r.h + 2 * wallThickness,
+  }));
+  const maxGap = wallThickness + WALL_GAP_EPS;
+
+  // Bảng cộng dồn số ô bị phòng chiếm để kiểm tra nhanh một ô vuông n×n
+  const prefix = new Int32Array((nx + 1) * (ny + 1));
+  {
+    const blocked = new Uint8Array(nx * ny);
+    for (const r of walled) {
+      const b = rectBounds(r);
+      const i0 = Math.max(0, Math.floor((b.left - left) / GRID));
+      const i1 = Math.min(nx - 1, Math.ceil((b.right - left) / GRID) - 1);
+      const j0 = Math.max(0, Math.floor((b.bottom - bottom) / GRID));
+      const j1 = Math.min(ny - 1, Math.ceil((b.top - bottom) / GRID) - 1);
+      for (let j = j0; j <= j1; j++) {
+        for (let i = i0; i <= i1; i++) {
+          const overlapX =
+            Math.min(b.right, left + (i + 1) * GRID) -
+            Math.max(b.left, left + i * GRID);
+          const overlapY =
+            Math.min(b.top, bottom + (j + 1) * GRID) -
+            Math.max(b.bottom, bottom + j * GRID);
+          if (overlapX > EPS && overlapY > EPS) blocked[cell(i, j)] = 1;
+        }
+      }
+    }
+    if (outline) {
+      for (let j = 0; j < ny; j++) {
+        for (let i = 0; i < nx; i++) {
+          const sq = {
+            x: left + (i + 0.5) * GRID,
+            y: bottom + (j + 0.5) * GRID,
+            w: GRID,
+            h: GRID,
+          };
+          if (!rectInsidePolygon(sq, outline)) blocked[cell(i, j)] = 1;
+        }
+      }
+    }
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        prefix[(j + 1) * (nx + 1) + i + 1] =
+          blocked[cell(i, j)] +
+          prefix[j * (nx + 1) + i + 1] +
+          prefix[(j + 1) * (nx + 1) + i] -
+          prefix[j * (nx + 1) + i];
+      }
+    }
+  }
+  const blockedIn = (i0: number, j0: number, i1: number, j1: number) =>
+    prefix[j1 * (nx + 1) + i1] -
+    prefix[j0 * (nx + 1) + i1] -
+    prefix[j1 * (nx + 1) + i0] +
+    prefix[j0 * (nx + 1) + i0];
+
+  // Ô neo (i, j) là góc dưới-trái của ô vuông n×n
+  const ax = nx - n + 1,
+    ay = ny - n + 1;
+  const anchors = ax * ay;
+  const free = new Uint8Array(anchors);
+  for (let j = 0; j < ay; j++) {
+    for (let i = 0; i < ax; i++) {
+      free[j * ax + i] = blockedIn(i, j, i + n, j + n) === 0 ? 1 : 0;
+    }
+  }
+  const squareOf = (a: number): Rect => {
+    const i = a % ax,
+      j = Math.floor(a / ax);
+    return {
+      x: left + (i + n / 2) * GRID,
+      y: bottom + (j + n / 2) * GRID,
+      w: n * GRID,
+      h: n * GRID,
+    };
+  };
+  const touches = (sq: Rect, r: Rect) => {
+    const wall = sharedWall(sq, r, wallThickness + GRID + EPS);
+    return Boolean(wall && wall.end - wall.start >= DOOR_NEED - EPS);
+  };
+
+  // Ô vuông chạm cửa chính (khi cửa chính mở thẳng ra chỗ trống). Cửa được
+  // dời vào trong một bề dày tường ngoài để nằm trên mép vùng khả dụng.
+  const doorOut = doorNormal(mainDoor);
+  const inner = [
+    { x: mainDoor.x1, y: mainDoor.y1 },
+    { x: mainDoor.x2, y: mainDoor.y2 },
+  ].map((p) => ({
+    x: p.x - doorOut.x * exteriorThickness,
+    y: p.y - doorOut.y * exteriorThickness,
+  }));
+  const atMainDoor = (sq: Rect) => {
+    if (entryRoomId) return false;
+    const b = rectBounds(sq);
+    const horizontal = Math.abs(doorOut.x) < EPS;
+    if (!horizontal && Math.abs(doorOut.y) >= EPS) {
+      // Cạnh xiên: ô vuông (nới một ô lưới) cắt qua cửa
+      return segmentCrossesRect(inner[0], inner[1], {
+        ...sq,
+        w: sq.w + 2 * GRID,
+        h: sq.h + 2 * GRID,
+      });
+    }
+    const span = horizontal
+      ? [Math.min(inner[0].x, inner[1].x), Math.max(inner[0].x, inner[1].x)]
+      : [Math.min(inner[0].y, inner[1].y), Math.max(inner[0].y, inner[1].y)];
+    // Mặt ô vuông quay về phía cửa cách mép vùng khả dụng dưới một ô lưới
+    const facing = horizontal
+      ? doorOut.y > 0
+        ? b.top
+        : b.bottom
+      : doorOut.x > 0
+        ? b.right
+        : b.left;
+    const at = horizontal ? inner[0].y : inner[0].x;
+    if (Math.abs(facing - at) >= GRID - EPS) return false;
+    const along = horizontal ? [b.left, b.right] : [b.bottom, b.top];
+    const overlap = Math.min(along[1], span[1]) - Math.max(along[0], span[0]);
+    return overlap >= Math.min(DOOR_NEED, span[1] - span[0]) - EPS;
+  };
+
+  // Nới cạnh đoạn hành lang tới sát mặt tường phòng/tường ngoài gần nhất
+  // (lệch lưới)
+  const snap = (r: Rect): Rect => {
+    const b = rectBounds(r);
+    const gap = {
+      N: usableH / 2 - b.top,
+      S: b.bottom + usableH / 2,
+      E: usableW / 2 - b.right,
+      W: b.left + usableW / 2,
+    };
+    for (const room of walled) {
+      const o = rectBounds(room);
+      const alongX = Math.min(o.right, b.right) - Math.max(o.left, b.left);
+      const alongY = Math.min(o.top, b.top) - Math.max(o.bottom, b.bottom);
+      if (alongX > EPS) {
+        if (o.bottom >= b.top - EPS) gap.N = Math.min(gap.N, o.bottom - b.top);
+        if (o.top <= b.bottom + EPS) gap.S = Math.min(gap.S, b.bottom - o.top);
+      }
+      if (alongY > EPS) {
+        if (o.left >= b.right - EPS) gap.E = Math.min(gap.E, o.left - b.right);
+        if (o.right <= b.left + EPS) gap.W = Math.min(gap.W, b.left - o.right);
+      }
+    }
+    const grow = (g: number) => (g > EPS && g < GRID + EPS ? g : 0);
+    const top = b.top + grow(gap.N),
+      bot = b.bottom - grow(gap.S),
+      right = b.right + grow(gap.E),
+      lft = b.left - grow(gap.W);
+    const snapped = {
+      x: (lft + right) / 2,
+      y: (bot + top) / 2,
+      w: right - lft,
+      h: top - bot,
+    };
+    // Sàn đa giác: không nới ra ngoài đường bao
+    return outline && !rectInsidePolygon(snapped, outline) ? r : snapped;
+  };
+
+  const onCorridor = new Uint8Array(anchors);
+  const covered = new Uint8Array(nx * ny);
+  const dist = new Float64Array(anchors * 4);
+  const prev = new Int32Array(anchors * 4);
+
+  let servedCount = -1;
+  for (let guard = 0; guard < rooms.length; guard++) {
+    const served = reachableRoomIds(rooms, mainDoor, {
+      exteriorThickness,
+      maxGap,
+      adjacencyRules,
+      corridors,
+      entryRoomId,
+      passageTypes,
+      passagesOnly: true,
+    });
+    const targets = rooms.filter((r) => !served.has(r.id));
+    // Dừng khi đã tới mọi phòng hoặc đoạn vừa đặt không nối thêm được phòng nào
+    const count = rooms.length - targets.length;
+    if (!targets.length || count <= servedCount) break;
+    servedCount = count;
+    const sources = rooms.filter(
+      (r) => served.has(r.id) && passageTypes.has(r.type)
+    );
+
+    // Dijkstra đa nguồn trên trạng thái (ô neo, hướng đi tới)
+    dist.fill(Infinity);
+    prev.fill(-1);
+    const heap = new MinHeap();
+    const targetOf = new Int16Array(anchors).fill(-1);
+    for (let a = 0; a < anchors; a++) {
+      if (!free[a]) continue;
+      const sq = squareOf(a);
+      const t = targets.findIndex((r) => touches(sq, r));
+      if (t >= 0) targetOf[a] = t;
+      const isSource =
+        onCorridor[a] || atMainDoor(sq) || sources.some((r) => touches(sq, r));
+      if (isSource) {
+        for (let d = 0; d < 4; d++) {
+          dist[a * 4 + d] = 0;
+          heap.push(0, a * 4 + d);
+        }
+      }
+    }
+
+    let reachedState = -1;
+    while (heap.size) {
+      const [cost, state] = heap.pop();
+      if (cost > dist[state]) continue;
+      const a = state >> 2,
+        d = state & 3;
+      if (targetOf[a] >= 0) {
+        reachedState = state;
+        break;
+      }
+      const i = a % ax,
+        j = Math.floor(a / ax);
+      for (let nd = 0; nd < 4; nd++) {
+        const ni = i + DIRS[nd][0],
+          nj = j + DIRS[nd][1];
+        if (ni < 0 || nj < 0 || ni >= ax || nj >= ay) continue;
+        const na = nj * ax + ni;
+        if (!free[na]) continue;
+        const next = cost + 1 + (nd === d ? 0 : TURN_PENALTY);
+        const ns = na * 4 + nd;
+        if (next < dist[ns]) {
+          dist[ns] = next;
+          prev[ns] = state;
+          heap.push(next, ns);
+        }
+      }
+    }
+    if (reachedState < 0) break;
+
+    // Dựng lại đường đi rồi gộp các ô neo thẳng hàng thành từng đoạn
+    const path: number[] = [];
+    for (let s = reachedState; s >= 0; s = prev[s]) path.unshift(s >> 2);
+    const runs: Array<[number, number]> = [];
+    let start = 0;
+    for (let k = 1; k < path.length; k++) {
+      const turn =
+        k + 1 < path.length && path[k + 1] - path[k] !== path[k] - path[k - 1];
+      if (turn || k === path.length - 1) {
+        runs.push([path[start], path[k]]);
+        start = k;
+      }
+    }
+    if (path.length === 1) runs.push([path[0], path[0]]);
+
+    for (const [a, b] of runs) {
+      const i0 = Math.min(a % ax, b % ax),
+        i1 = Math.max(a % ax, b % ax) + n;
+      const j0 = Math.min(Math.floor(a / ax), Math.floor(b / ax)),
+        j1 = Math.max(Math.floor(a / ax), Math.floor(b / ax)) + n;
+      corridors.push({
+        id: `corridor_${corridors.length + 1}`,
+        ...snap({
+          x: left + ((i0 + i1) / 2) * GRID,
+          y: bottom + ((j0 + j1) / 2) * GRID,
+          w: (i1 - i0) * GRID,
+          h: (j1 - j0) * GRID,
+        }),
+      });
+      for (let j = j0; j < j1; j++) {
+        for (let i = i0; i < i1; i++) covered[cell(i, j)] = 1;
+      }
+    }
+    for (const a of path) onCorridor[a] = 1;
+  }
+
+  const area = covered.reduce((s, c) => s + c, 0) * GRID * GRID;
+  return { corridors, area };
+};
@@ -0,0 +1,371 @@
+import type { Edge } from "@/components/FloorForm";
+import type { PlacedDoor, PlacedRoom, RoomDoor } from "./GenerateLayout";
+import {
+  doorSpanOnSide,
+  doorSpecForSpan,
+  oppositeEdge,
+  rectBounds,
+  rectsOverlap,
+  sharedWall,
+  spansOverlap,
+  type DoorSpan,
+  type Rect,
+  type SharedWall,
+} from "./RoomGeometry";
+import { doorForbidden, type AdjacencyRule } from "./AdjacencyRules";
+import { doorNormal, dominantSide, segmentCrossesRect } from "./FloorOutline";
+
+export interface DoorSynthesisOptions {
+  exteriorThickness: number;
+  // Khe tối đa giữa hai phòng vẫn coi là chung tường
+  maxGap?: number;
+  // Luật noDoor: không tự mở cửa giữa các cặp loại phòng này
+  adjacencyRules?: AdjacencyRule[];
+  // Các đoạn hành lang — lối đi không có tường, nối thông với nhau
+  corridors?: Array<Rect & { id: string }>;
+  // Tầng trên: đi vào từ phòng này (cầu thang) thay cho cửa chính
+  entryRoomId?: string;
+  // Các loại phòng đi xuyên qua được (mặc định PASSAGE_TYPES)
+  passageTypes?: ReadonlySet<string>;
+}
+
+export interface DoorSynthesisResult {
+  rooms: PlacedRoom[];
+  warnings: string[];
+}
+
+const DOOR_W_MIN = 0.6;
+const INTERIOR_DOOR_W = 0.8;
+const DOOR_MARGIN = 0.1; // khoảng cách tối thiểu từ mép cửa tới góc tường
+const EPS = 0.05;
+
+export const CORRIDOR_TYPE = "corridor";
+
+// Các loại phòng có thể dùng làm lối đi sang phòng khác — mặc định khi
+// room_preset.json không khai báo `passage`
+export const PASSAGE_TYPES: ReadonlySet<string> = new Set<string>([
+  "living",
+  "kitchen",
+  "stair",
+  CORRIDOR_TYPE,
+]);
+
+// Nút của đồ thị lối đi: một phòng hoặc một đoạn hành lang
+type Node = Rect & {
+  id: string;
+  type: string;
+  label: string;
+  rawDoors?: RoomDoor[];
+};
+
+// wall.side là cạnh của phòng a
+type Link = { a: Node; b: Node; wall: SharedWall };
+
+const corridorNodes = (corridors: DoorSynthesisOptions["corridors"] = []) =>
+  corridors.map((c): Node => ({
+    id: c.id,
+    x: c.x,
+    y: c.y,
+    w: c.w,
+    h: c.h,
+    type: CORRIDOR_TYPE,
+    label: "Hành lang",
+  }));
+
+// Hai đoạn hành lang chồng hoặc chạm nhau thì thông nhau, không cần cửa
+const corridorsJoined = (a: Node, b: Node) =>
+  a.type === CORRIDOR_TYPE &&
+  b.type === CORRIDOR_TYPE &&
+  rectsOverlap(
+    { ...a, w: a.w + 2 * EPS, h: a.h + 2 * EPS },
+    { ...b, w: b.w + 2 * EPS, h: b.h + 2 * EPS }
+  );
+
+const sideOf = (link: Link, room: Node): Edge =>
+  room.id === link.a.id ? link.wall.side : oppositeEdge[link.wall.side];
+
+const doorsOnSpan = (room: Node, side: Edge, span: DoorSpan) =>
+  (room.rawDoors ?? []).filter(
+    (d) => d.side === side && spansOverlap(doorSpanOnSide(room, d), span) > EPS
+  );
+
+const pushDoor = (room: Node, side: Edge, span: DoorSpan) => {
+  const door: RoomDoor = { ...doorSpecForSpan(room, side, span), auto: true };
+  room.rawDoors = [...(room.rawDoors ?? []), door];
+};
+
+// Phòng nằm sát cửa chính: cạnh phòng cách đường cửa không quá bề dày tường ngoài
+const findEntry = (
+  rooms: Node[],
+  mainDoor: PlacedDoor,
+  exteriorThickness: number,
+  maxGap: number,
+  passageTypes: ReadonlySet<string>
+) => {
+  // Cửa chính trên cạnh xiên của sàn đa giác mở vào phòng theo hướng chính
+  // của cạnh
+  const normal = doorNormal(mainDoor);
+  const side = dominantSide(normal);
+  const horizontal = side === "N" || side === "S";
+  const slanted = Math.abs(normal.x) > 1e-6 && Math.abs(normal.y) > 1e-6;
+  const doorSpan: DoorSpan = horizontal
+    ? {
+        start: Math.min(mainDoor.x1, mainDoor.x2),
+        end: Math.max(mainDoor.x1, mainDoor.x2),
+      }
+    : {
+        start: Math.min(mainDoor.y1, mainDoor.y2),
+        end: Math.max(mainDoor.y1, mainDoor.y2),
+      };
+  const lineCoord = horizontal ? mainDoor.y1 : mainDoor.x1;
+
+  // Ưu tiên phòng khách, rồi tới các lối đi khác (bếp, hành lang)
+  const rank = (n: Node) =>
+    n.type === "living" ? 0 : passageTypes.has(n.type) ? 1 : 2;
+
+  let best: { room: Node; side: Edge; span: DoorSpan } | null = null;
+  for (const room of rooms) {
+    const b = rectBounds(room);
+    if (slanted) {
+      // Khoảng cách tới cạnh xiên đo theo trục: tường ngoài dày hơn theo
+      // phương ngang/dọc
+      const reach =
+        exteriorThickness / Math.max(Math.abs(normal.x), Math.abs(normal.y)) +
+        maxGap;
+      const grown = { ...room, w: room.w + 2 * reach, h: room.h + 2 * reach };
+      const a = { x: mainDoor.x1, y: mainDoor.y1 },
+        c = { x: mainDoor.x2, y: mainDoor.y2 };
+      if (!segmentCrossesRect(a, c, grown)) continue;
+    } else {
+      const edgeCoord = { N: b.top, S: b.bottom, E: b.right, W: b.left }[side];
+      const gap = Math.abs(lineCoord - edgeCoord);
+      if (gap > exteriorThickness + maxGap + EPS) continue;
+    }
+
+    const roomSpan = horizontal
+      ? { start: b.left, end: b.right }
+      : { start: b.bottom, end: b.top };
+    const span = {
+      start: Math.max(roomSpan.start, doorSpan.start),
+      end: Math.min(roomSpan.end, doorSpan.end),
+    };
+    if (span.end - span.start <= EPS) continue;
+
+    const better =
+      !best ||
+      rank(room) < rank(best.room) ||
+      (rank(room) === rank(best.room) &&
+        span.end - span.start > best.span.end - best.span.start);
+    if (better) best = { room, side, span };
+  }
+  return best;
+};
+
+const buildLinks = (
+  rooms: Node[],
+  maxGap: number,
+  rules: AdjacencyRule[] = []
+) => {
+  const links: Link[] = [];
+  for (let i = 0; i < rooms.length; i++) {
+    for (let j = i + 1; j < rooms.length; j++) {
+      if (doorForbidden(rules, rooms[i].type, rooms[j].type)) continue;
+      if (corridorsJoined(rooms[i], rooms[j])) continue;
+      const wall = sharedWall(rooms[i], rooms[j], maxGap);
+      if (wall) links.push({ a: rooms[i], b: rooms[j], wall });
+    }
+  }
+  return links;
+};
+
+const joinedCorridors = (nodes: Node[]) => {
+  const pairs: Array<[Node, Node]> = [];
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      if (corridorsJoined(nodes[i], nodes[j])) pairs.push([nodes[i], nodes[j]]);
+    }
+  }
+  return pairs;
+};
+
+// Các phòng (và đoạn hành lang) đi tới được từ cửa chính nếu mở cửa trên mọi
+// tường chung đủ dài, trừ các cặp bị luật noDoor cấm — dùng để chấm điểm bố
+// cục. passagesOnly: chỉ đi tiếp từ phòng làm lối đi (khách, bếp, hành lang),
+// không đi xuyên qua phòng ngủ/WC.
+export const reachableRoomIds = (
+  rooms: PlacedRoom[],
+  mainDoor: PlacedDoor,
+  {
+    exteriorThickness,
+    maxGap = EPS,
+    adjacencyRules,
+    corridors,
+    entryRoomId,
+    passageTypes = PASSAGE_TYPES,
+    passagesOnly = false,
+  }: DoorSynthesisOptions & { passagesOnly?: boolean }
+): Set<string> => {
+  const nodes: Node[] = [...rooms, ...corridorNodes(corridors)];
+  const reached = new Set<string>();
+  const entry = entryRoomId
+    ? nodes.find((n) => n.id === entryRoomId)
+    : findEntry(nodes, mainDoor, exteriorThickness, maxGap, passageTypes)?.room;
+  if (!entry) return reached;
+  reached.add(entry.id);
+
+  const links = buildLinks(nodes, maxGap, adjacencyRules).filter(
+    (l) => l.wall.end - l.wall.start - 2 * DOOR_MARGIN >= DOOR_W_MIN
+  );
+  const edges: Array<[Node, Node]> = [
+    ...links.map((l): [Node, Node] => [l.a, l.b]),
+    ...joinedCorridors(nodes),
+  ];
+  const spreads = (n: Node) =>
+    !passagesOnly || n.id === entry.id || passageTypes.has(n.type);
+
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const [a, b] of edges) {
+      for (const [from, to] of [
+        [a, b],
+        [b, a],
+      ]) {
+        if (reached.has(from.id) && !reached.has(to.id) && spreads(from)) {
+          reached.add(to.id);
+          progress = true;
+        }
+      }
+    }
+  }
+  return reached;
+};
+
+// Thêm cửa giữa các phòng có chung tường sao cho mọi phòng đều đi tới được
+// từ cửa chính. Ưu tiên đi qua phòng khách/bếp, chỉ mở cửa xuyên qua phòng
+// ngủ/WC khi không còn cách nào khác. Cửa do người dùng nhập luôn được mở
+// thông, kể cả giữa các cặp phòng bị luật noDoor cấm.
+export const synthesizeDoors = (
+  rooms: PlacedRoom[],
+  mainDoor: PlacedDoor,
+  {
+    exteriorThickness,
+    maxGap = EPS,
+    adjacencyRules,
+    corridors,
+    entryRoomId,
+    passageTypes = PASSAGE_TYPES,
+  }: DoorSynthesisOptions
+): DoorSynthesisResult => {
+  const out = rooms.map((r) => ({
+    ...r,
+    rawDoors: r.rawDoors ? [...r.rawDoors] : undefined,
+  }));
+  const warnings: string[] = [];
+  if (out.length === 0) return { rooms: out, warnings };
+
+  // Cửa thêm vào các nút hành lang bị bỏ đi — hành lang không có tường riêng
+  const nodes: Node[] = [...out, ...corridorNodes(corridors)];
+  const links = buildLinks(nodes, maxGap);
+  const joined = joinedCorridors(nodes);
+  const forbidden = (l: Link) =>
+    doorForbidden(adjacencyRules ?? [], l.a.type, l.b.type);
+
+  const reached = new Set<string>();
+  const entry = entryRoomId
+    ? null
+    : findEntry(nodes, mainDoor, exteriorThickness, maxGap, passageTypes);
+  if (entryRoomId) {
+    if (nodes.some((n) => n.id === entryRoomId)) reached.add(entryRoomId);
+  } else if (!entry) {
+    warnings.push("⚠️ Cửa chính không dẫn trực tiếp vào phòng nào");
+  } else {
+    reached.add(entry.room.id);
+    if (
+      entry.span.end - entry.span.start >= DOOR_W_MIN - EPS &&
+      doorsOnSpan(entry.room, entry.side, entry.span).length === 0
+    ) {
+      pushDoor(entry.room, entry.side, entry.span);
+    }
+  }
+
+  const frontier = () =>
+    links.filter((l) => reached.has(l.a.id) !== reached.has(l.b.id));
+
+  while (reached.size > 0) {
+    // 0. Đoạn hành lang nối thông với đoạn đã tới được
+    const pass = joined.find(
+      ([a, b]) => reached.has(a.id) !== reached.has(b.id)
+    );
+    if (pass) {
+      reached.add(pass[0].id);
+      reached.add(pass[1].id);
+      continue;
+    }
+
+    // 1. Tường chung đã có cửa (do người dùng nhập) — chỉ cần mở thông hai phía
+    const open = frontier().find(
+      (l) =>
+        doorsOnSpan(l.a, l.wall.side, l.wall).length > 0 ||
+        doorsOnSpan(l.b, oppositeEdge[l.wall.side], l.wall).length > 0
+    );
+    if (open) {
+      for (const [from, to] of [
+        [open.a, open.b],
+        [open.b, open.a],
+      ]) {
+        const fromSide = sideOf(open, from);
+        const toSide = sideOf(open, to);
+        for (const d of doorsOnSpan(from, fromSide, open.wall)) {
+          const span = doorSpanOnSide(from, d);
+          const clipped = {
+            start: Math.max(span.start, open.wall.start),
+            end: Math.min(span.end, open.wall.end),
+          };
+          if (doorsOnSpan(to, toSide, clipped).length === 0) {
+            pushDoor(to, toSide, clipped);
+          }
+        }
+      }
+      reached.add(open.a.id);
+      reached.add(open.b.id);
+      continue;
+    }
+
+    // 2. Mở cửa mới, ưu tiên đi ra từ phòng làm lối đi
+    const candidates = frontier()
+      .map((l) => {
+        const from = reached.has(l.a.id) ? l.a : l.b;
+        const usable = l.wall.end - l.wall.start - 2 * DOOR_MARGIN;
+        return { link: l, from, usable };
+      })
+      .filter((c) => c.usable >= DOOR_W_MIN && !forbidden(c.link))
+      .sort((x, y) => {
+        const px = passageTypes.has(x.from.type) ? 0 : 1;
+        const py = passageTypes.has(y.from.type) ? 0 : 1;
+        if (px !== py) return px - py;
+        const lx = x.from.type === "living" ? 0 : 1;
+        const ly = y.from.type === "living" ? 0 : 1;
+        if (lx !== ly) return lx - ly;
+        return y.usable - x.usable;
+      });
+    if (candidates.length === 0) break;
+
+    const { link } = candidates[0];
+    const width = Math.min(INTERIOR_DOOR_W, candidates[0].usable);
+    const mid = (link.wall.start + link.wall.end) / 2;
+    const span = { start: mid - width / 2, end: mid + width / 2 };
+    pushDoor(link.a, link.wall.side, span);
+    pushDoor(link.b, oppositeEdge[link.wall.side], span);
+    reached.add(link.a.id);
+    reached.add(link.b.id);
+  }
+
+  for (const room of out) {
+    if (!reached.has(room.id)) {
+      warnings.push(`${room.label}: không có lối vào — phòng bị cô lập.`);
+    }
+  }
+
+  return { rooms: out, warnings };
+};
@@ -0,0 +1,23 @@
+// Tải một chuỗi văn bản xuống máy người dùng dưới dạng tệp
+export const downloadText = (
+  fileName: string,
+  text: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Trình duyệt đã bắt đầu tải — thu hồi URL ở lượt sau
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Tên tệp an toàn từ tên dự án (bỏ ký tự không hợp lệ trên các hệ điều hành)
+export const safeFileName = (name: string, extension: string) =>
+  `${
+    name
+      .trim()
+      .replace(/[\\/:*?"<>|]+/g, "")
+      .replace(/\s+/g, "_") || "du_an"
+  }.${extension}`;
@@ -0,0 +1,266 @@
+import type { LayoutResult } from "./GenerateLayout";
+import { wallPieces, type WallGraphOptions } from "./WallGraph";
+import type { Point } from "./FloorOutline";
+import {
+  doorSwings,
+  planStoreys,
+  planWalls,
+  wallPieceCorners,
+  type DoorSwing,
+} from "./PlanGeometry";
+
+// Các lớp của bản vẽ DXF (đặt tên theo chuẩn AIA) và màu ACI của từng lớp
+export const DXF_LAYERS = {
+  exteriorWall: "A-WALL-EXTR",
+  interiorWall: "A-WALL-INTR",
+  door: "A-DOOR",
+  room: "A-AREA-BNDY",
+  text: "A-ANNO-TEXT",
+} as const;
+
+const LAYER_COLORS: Record<string, number> = {
+  [DXF_LAYERS.exteriorWall]: 7,
+  [DXF_LAYERS.interiorWall]: 8,
+  [DXF_LAYERS.door]: 5,
+  [DXF_LAYERS.room]: 3,
+  [DXF_LAYERS.text]: 2,
+};
+
+// Khoảng cách giữa các tầng khi xếp từ trên xuống (m)
+const STOREY_GAP = 3;
+const LABEL_HEIGHT = 0.25;
+const AREA_HEIGHT = 0.18;
+const TITLE_HEIGHT = 0.4;
+
+// Số trong DXF: bỏ sai số dấu phẩy động, không ghi "-0"
+const fmt = (v: number) => String(Math.abs(v) < 1e-9 ? 0 : +v.toFixed(4));
+
+// DXF R12 ghi chữ ngoài ASCII bằng mã \U+XXXX (AutoCAD tự đọc)
+const encodeText = (text: string) =>
+  [...text]
+    .map((ch) => {
+      const code = ch.codePointAt(0)!;
+      return code < 128
+        ? ch
+        : `\\U+${code.toString(16).toUpperCase().padStart(4, "0")}`;
+    })
+    .join("");
+
+const degrees = (v: Point) => {
+  const deg = (Math.atan2(v.y, v.x) * 180) / Math.PI;
+  return deg < 0 ? deg + 360 : deg;
+};
+
+// Gom các cặp (mã nhóm, giá trị) của tệp DXF; toạ độ tính bằng mét, đã
+// cộng độ lệch dy của tầng đang ghi
+const dxfWriter = () => {
+  const lines: string[] = [];
+  let dy = 0;
+  const bounds = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+  };
+
+  const pair = (code: number, value: string | number) =>
+    lines.push(String(code), typeof value === "number" ? fmt(value) : value);
+  const point = (p: Point, base = 10) => {
+    const y = p.y + dy;
+    bounds.minX = Math.min(bounds.minX, p.x);
+    bounds.maxX = Math.max(bounds.maxX, p.x);
+    bounds.minY = Math.min(bounds.minY, y);
+    bounds.maxY = Math.max(bounds.maxY, y);
+    pair(base, p.x);
+    pair(base + 10, y);
+    pair(base + 20, 0);
+  };
+
+  return {
+    lines,
+    bounds,
+    pair,
+    setOffset: (offset: number) => {
+      dy = offset;
+    },
+    line: (layer: string, a: Point, b: Point) => {
+      pair(0, "LINE");
+      pair(8, layer);
+      point(a);
+      point(b, 11);
+    },
+    polyline: (layer: string, points: Point[]) => {
+      pair(0, "POLYLINE");
+      pair(8, layer);
+      pair(66, 1);
+      pair(10, 0);
+      pair(20, 0);
+      pair(30, 0);
+      // 70 = 1: đường khép kín
+      pair(70, 1);
+      for (const p of points) {
+        pair(0, "VERTEX");
+        pair(8, layer);
+        point(p);
+      }
+      pair(0, "SEQEND");
+      pair(8, layer);
+    },
+    // Cung đi ngược chiều kim đồng hồ từ startDeg tới endDeg
+    arc: (
+      layer: string,
+      center: Point,
+      radius: number,
+      startDeg: number,
+      endDeg: number
+    ) => {
+      pair(0, "ARC");
+      pair(8, layer);
+      point(center);
+      pair(40, radius);
+      pair(50, startDeg);
+      pair(51, endDeg);
+    },
+    // Chữ căn giữa (ngang và dọc) tại p
+    text: (layer: string, p: Point, height: number, text: string) => {
+      pair(0, "TEXT");
+      pair(8, layer);
+      point(p);
+      pair(40, height);
+      pair(1, encodeText(text));
+      pair(72, 1);
+      point(p, 11);
+      pair(73, 2);
+    },
+  };
+};
+
+type DxfWriter = ReturnType<typeof dxfWriter>;
+
+// Cánh cửa: đường cánh từ bản lề và cung 1/4 quét từ vị trí đóng tới mở
+const writeDoor = (out: DxfWriter, swing: DoorSwing) => {
+  const { hinge, along, into, radius } = swing;
+  out.line(DXF_LAYERS.door, hinge, {
+    x: hinge.x + into.x * radius,
+    y: hinge.y + into.y * radius,
+  });
+  const ccw = along.x * into.y - along.y * into.x > 0;
+  const [from, to] = ccw ? [along, into] : [into, along];
+  out.arc(DXF_LAYERS.door, hinge, radius, degrees(from), degrees(to));
+};
+
+const writeStorey = (
+  out: DxfWriter,
+  layout: LayoutResult,
+  options: WallGraphOptions
+) => {
+  for (const segment of planWalls(layout, options).segments) {
+    const layer =
+      segment.kind === "exterior"
+        ? DXF_LAYERS.exteriorWall
+        : DXF_LAYERS.interiorWall;
+    for (const piece of wallPieces(segment)) {
+      const corners = wallPieceCorners(piece);
+      if (corners.length) out.polyline(layer, corners);
+    }
+  }
+
+  for (const swing of doorSwings(layout, options)) writeDoor(out, swing);
+
+  for (const r of layout.rooms) {
+    out.polyline(DXF_LAYERS.room, [
+      { x: r.x - r.w / 2, y: r.y - r.h / 2 },
+      { x: r.x + r.w / 2, y: r.y - r.h / 2 },
+      { x: r.x + r.w / 2, y: r.y + r.h / 2 },
+      { x: r.x - r.w / 2, y: r.y + r.h / 2 },
+    ]);
+    out.text(
+      DXF_LAYERS.text,
+      { x: r.x, y: r.y + AREA_HEIGHT },
+      LABEL_HEIGHT,
+      r.label
+    );
+    out.text(
+      DXF_LAYERS.text,
+      { x: r.x, y: r.y - LABEL_HEIGHT },
+      AREA_HEIGHT,
+      `${(r.w * r.h).toFixed(1)} m²`
+    );
+  }
+};
+
+// Tệp DXF R12 (ASCII) của bố cục: tường, cửa, đường bao phòng và nhãn trên
+// các lớp riêng, đơn vị mét, gốc ở tâm sàn. Nhà nhiều tầng: các tầng xếp
+// từ trên xuống, mỗi tầng ghi tên phía trên.
+export const layoutToDxf = (
+  layout: LayoutResult,
+  options: WallGraphOptions & { title?: string }
+): string => {
+  const body = dxfWriter();
+  const { height } = layout.floor;
+  const storeys = planStoreys(layout);
+  storeys.forEach(({ view, name }, i) => {
+    body.setOffset(-i * (height + STOREY_GAP));
+    const heading = [i === 0 ? options.title : undefined, name]
+      .filter(Boolean)
+      .join(" — ");
+    if (heading) {
+      body.text(
+        DXF_LAYERS.text,
+        { x: 0, y: height / 2 + 1 },
+        TITLE_HEIGHT,
+        heading
+      );
+    }
+    writeStorey(body, view, options);
+  });
+
+  const out = dxfWriter();
+  const { minX, minY, maxX, maxY } = body.bounds;
+  out.pair(0, "SECTION");
+  out.pair(2, "HEADER");
+  out.pair(9, "$ACADVER");
+  out.pair(1, "AC1009");
+  out.pair(9, "$EXTMIN");
+  out.pair(10, Number.isFinite(minX) ? minX : 0);
+  out.pair(20, Number.isFinite(minY) ? minY : 0);
+  out.pair(30, 0);
+  out.pair(9, "$EXTMAX");
+  out.pair(10, Number.isFinite(maxX) ? maxX : 0);
+  out.pair(20, Number.isFinite(maxY) ? maxY : 0);
+  out.pair(30, 0);
+  out.pair(0, "ENDSEC");
+
+  out.pair(0, "SECTION");
+  out.pair(2, "TABLES");
+  out.pair(0, "TABLE");
+  out.pair(2, "LTYPE");
+  out.pair(70, 1);
+  out.pair(0, "LTYPE");
+  out.pair(2, "CONTINUOUS");
+  out.pair(70, 0);
+  out.pair(3, "Solid line");
+  out.pair(72, 65);
+  out.pair(73, 0);
+  out.pair(40, 0);
+  out.pair(0, "ENDTAB");
+  out.pair(0, "TABLE");
+  out.pair(2, "LAYER");
+  out.pair(70, Object.keys(LAYER_COLORS).length);
+  for (const [name, color] of Object.entries(LAYER_COLORS)) {
+    out.pair(0, "LAYER");
+    out.pair(2, name);
+    out.pair(70, 0);
+    out.pair(62, color);
+    out.pair(6, "CONTINUOUS");
+  }
+  out.pair(0, "ENDTAB");
+  out.pair(0, "ENDSEC");
+
+  out.pair(0, "SECTION");
+  out.pair(2, "ENTITIES");
+  out.lines.push(...body.lines);
+  out.pair(0, "ENDSEC");
+  out.pair(0, "EOF");
+  return out.lines.join("\n") + "\n";
+};
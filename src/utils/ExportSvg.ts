@@ -0,0 +1,193 @@
+import type { LayoutResult } from "./GenerateLayout";
+import { wallPieces, type WallGraphOptions } from "./WallGraph";
+import type { Point } from "./FloorOutline";
+import {
+  doorSwings,
+  planStoreys,
+  planWalls,
+  wallPieceCorners,
+  type DoorSwing,
+} from "./PlanGeometry";
+
+export interface SvgExportOptions extends WallGraphOptions {
+  // px trên mỗi mét (mặc định 50)
+  scale?: number;
+  // Tiêu đề in phía trên bản vẽ (vd. tên dự án)
+  title?: string;
+}
+
+// Cùng màu với Floor2DCanvas
+const EXTERIOR_WALL_COLOR = "#4a4a4a";
+const INTERIOR_WALL_COLOR = "#8b8b8b";
+const DOOR_COLOR = "#1d4ed8";
+const MAIN_DOOR_COLOR = "#2b8a3e";
+const DIMENSION_COLOR = "#374151";
+
+// Lề quanh sàn (m) chừa chỗ cho đường kích thước
+const MARGIN = 1.5;
+// Khoảng cách từ mép sàn tới đường kích thước (m)
+const DIMENSION_OFFSET = 0.8;
+const TITLE_H = 40;
+const EPS = 1e-6;
+
+const num = (v: number) => +v.toFixed(2);
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Chuyển toạ độ thế giới (gốc ở tâm sàn, y hướng lên) sang SVG (y hướng
+// xuống) cho một tầng vẽ ở độ cao originY
+const projector = (layout: LayoutResult, scale: number, originY: number) => {
+  const { width, height } = layout.floor;
+  const x = (v: number) => num((v + width / 2 + MARGIN) * scale);
+  const y = (v: number) => num(originY + (height / 2 + MARGIN - v) * scale);
+  const pt = (p: Point) => `${x(p.x)},${y(p.y)}`;
+  const len = (v: number) => num(v * scale);
+  return { x, y, pt, len };
+};
+
+type Projector = ReturnType<typeof projector>;
+
+// Cánh cửa mở vào trong: đường cánh từ bản lề và cung 1/4 từ mép cửa còn
+// lại (hinge + r·along) tới đầu cánh
+const doorSwing = (p: Projector, swing: DoorSwing) => {
+  const { hinge, along, into, radius: r } = swing;
+  const color = swing.main ? MAIN_DOOR_COLOR : DOOR_COLOR;
+  const closed = { x: hinge.x + along.x * r, y: hinge.y + along.y * r };
+  const open = { x: hinge.x + into.x * r, y: hinge.y + into.y * r };
+  // Quay ngược chiều kim đồng hồ (nhìn trên bản vẽ) ứng với sweep-flag = 0
+  const sweep = along.x * into.y - along.y * into.x > 0 ? 0 : 1;
+  return [
+    `<line x1="${p.x(hinge.x)}" y1="${p.y(hinge.y)}" x2="${p.x(open.x)}" y2="${p.y(open.y)}" stroke="${color}" stroke-width="1.5"/>`,
+    `<path d="M ${p.pt(closed)} A ${p.len(r)} ${p.len(r)} 0 0 ${sweep} ${p.pt(open)}" fill="none" stroke="${color}" stroke-width="0.8" stroke-dasharray="3 2"/>`,
+  ].join("");
+};
+
+// Đường kích thước có vạch chặn hai đầu và số đo ở giữa
+const dimensionLine = (p: Projector, a: Point, b: Point, text: string) => {
+  const horizontal = Math.abs(a.y - b.y) < EPS;
+  const tick = 0.15;
+  const ticks = [a, b].map((q) =>
+    horizontal
+      ? `<line x1="${p.x(q.x)}" y1="${p.y(q.y - tick)}" x2="${p.x(q.x)}" y2="${p.y(q.y + tick)}"/>`
+      : `<line x1="${p.x(q.x - tick)}" y1="${p.y(q.y)}" x2="${p.x(q.x + tick)}" y2="${p.y(q.y)}"/>`
+  );
+  const mx = p.x((a.x + b.x) / 2),
+    my = p.y((a.y + b.y) / 2);
+  const label = horizontal
+    ? `<text x="${mx}" y="${num(my - 6)}" text-anchor="middle">${text}</text>`
+    : `<text x="${num(mx - 6)}" y="${my}" text-anchor="middle" transform="rotate(-90 ${num(mx - 6)} ${my})">${text}</text>`;
+  return `<g stroke="${DIMENSION_COLOR}" stroke-width="1" fill="${DIMENSION_COLOR}" font-size="12"><line x1="${p.x(a.x)}" y1="${p.y(a.y)}" x2="${p.x(b.x)}" y2="${p.y(b.y)}"/>${ticks.join("")}<g stroke="none">${label}</g></g>`;
+};
+
+// Một tầng: sàn, hành lang, phòng (nhãn + diện tích + kích thước), tường
+// đã khoét cửa, cánh cửa và kích thước tổng
+const renderStorey = (
+  layout: LayoutResult,
+  options: SvgExportOptions,
+  scale: number,
+  originY: number
+) => {
+  const p = projector(layout, scale, originY);
+  const { width, height, outline } = layout.floor;
+  const out: string[] = [];
+
+  out.push(
+    outline
+      ? `<polygon points="${outline.map(p.pt).join(" ")}" fill="#fafafa" stroke="#333" stroke-width="1"/>`
+      : `<rect x="${p.x(-width / 2)}" y="${p.y(height / 2)}" width="${p.len(width)}" height="${p.len(height)}" fill="#fafafa" stroke="#333" stroke-width="1"/>`
+  );
+
+  for (const c of layout.corridors ?? []) {
+    out.push(
+      `<rect x="${p.x(c.x - c.w / 2)}" y="${p.y(c.y + c.h / 2)}" width="${p.len(c.w)}" height="${p.len(c.h)}" fill="#e5e7eb" stroke="#9ca3af" stroke-width="1" stroke-dasharray="6 3"/>`
+    );
+  }
+
+  for (const r of layout.rooms) {
+    out.push(
+      `<rect x="${p.x(r.x - r.w / 2)}" y="${p.y(r.y + r.h / 2)}" width="${p.len(r.w)}" height="${p.len(r.h)}" fill="${escapeXml(r.color)}" fill-opacity="0.95"/>`
+    );
+  }
+
+  for (const segment of planWalls(layout, options).segments) {
+    const color =
+      segment.kind === "exterior" ? EXTERIOR_WALL_COLOR : INTERIOR_WALL_COLOR;
+    for (const piece of wallPieces(segment)) {
+      const corners = wallPieceCorners(piece);
+      if (!corners.length) continue;
+      out.push(
+        `<polygon points="${corners.map(p.pt).join(" ")}" fill="${color}"/>`
+      );
+    }
+  }
+
+  out.push(...doorSwings(layout, options).map((swing) => doorSwing(p, swing)));
+
+  for (const r of layout.rooms) {
+    const cx = p.x(r.x),
+      cy = p.y(r.y);
+    out.push(
+      `<g text-anchor="middle" fill="#111"><text x="${cx}" y="${num(cy - 4)}" font-size="14" font-weight="bold">${escapeXml(r.label)}</text><text x="${cx}" y="${num(cy + 12)}" font-size="11">${(r.w * r.h).toFixed(1)} m²</text><text x="${cx}" y="${num(cy + 26)}" font-size="10" fill="#4b5563">${r.w.toFixed(2)} × ${r.h.toFixed(2)} m</text></g>`
+    );
+  }
+
+  const top = height / 2 + DIMENSION_OFFSET,
+    left = -width / 2 - DIMENSION_OFFSET;
+  out.push(
+    dimensionLine(
+      p,
+      { x: -width / 2, y: top },
+      { x: width / 2, y: top },
+      `${width.toFixed(2)} m`
+    ),
+    dimensionLine(
+      p,
+      { x: left, y: -height / 2 },
+      { x: left, y: height / 2 },
+      `${height.toFixed(2)} m`
+    )
+  );
+  return out.join("\n");
+};
+
+// Bản vẽ SVG của bố cục (nhà nhiều tầng: các tầng xếp từ trên xuống, mỗi
+// tầng một tiêu đề). Kết quả là một tài liệu SVG độc lập để in hoặc chèn
+// vào hồ sơ.
+export const layoutToSvg = (
+  layout: LayoutResult,
+  options: SvgExportOptions
+): string => {
+  const scale = options.scale ?? 50;
+  const { width, height } = layout.floor;
+  const storeys = planStoreys(layout);
+  // Chỉ chừa chỗ cho tiêu đề chung / tên tầng khi thật sự có
+  const headerH = options.title ? TITLE_H : 0;
+  const nameH = storeys.some((s) => s.name) ? TITLE_H : 0;
+  const panelW = (width + 2 * MARGIN) * scale;
+  const panelH = (height + 2 * MARGIN) * scale + nameH;
+  const totalH = headerH + storeys.length * panelH;
+
+  const panels = storeys.map(({ view, name }, i) => {
+    const originY = headerH + i * panelH + nameH;
+    const heading = name
+      ? `<text x="${num(panelW / 2)}" y="${num(originY - 12)}" text-anchor="middle" font-size="16" font-weight="bold">${escapeXml(name)}</text>`
+      : "";
+    return heading + "\n" + renderStorey(view, options, scale, originY);
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(panelW)}" height="${num(totalH)}" viewBox="0 0 ${num(panelW)} ${num(totalH)}" font-family="Arial, sans-serif">`,
+    `<rect width="100%" height="100%" fill="#fff"/>`,
+    options.title
+      ? `<text x="${num(panelW / 2)}" y="26" text-anchor="middle" font-size="20" font-weight="bold">${escapeXml(options.title)}</text>`
+      : "",
+    ...panels,
+    `</svg>`,
+  ].join("\n");
+};
@@ -0,0 +1,337 @@
+import type { Edge } from "@/components/FloorForm";
+import type { PlacedDoor } from "./GenerateLayout";
+import { rectBounds, type Rect } from "./RoomGeometry";
+
+export type Point = { x: number; y: number };
+
+export type OutlineEdge = {
+  a: Point;
+  b: Point;
+  length: number;
+  // Pháp tuyến đơn vị hướng ra ngoài sàn
+  normal: Point;
+};
+
+const EPS = 1e-6;
+
+export const polygonSignedArea = (poly: Point[]) => {
+  let s = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const p = poly[i],
+      q = poly[(i + 1) % poly.length];
+    s += p.x * q.y - q.x * p.y;
+  }
+  return s / 2;
+};
+
+export const polygonArea = (poly: Point[]) => Math.abs(polygonSignedArea(poly));
+
+export const polygonBounds = (poly: Point[]) => ({
+  left: Math.min(...poly.map((p) => p.x)),
+  right: Math.max(...poly.map((p) => p.x)),
+  bottom: Math.min(...poly.map((p) => p.y)),
+  top: Math.max(...poly.map((p) => p.y)),
+});
+
+// Đưa đa giác về chiều ngược kim đồng hồ, gốc ở góc SW của khung bao
+export const normalizeOutline = (points: Point[]) => {
+  const ccw = polygonSignedArea(points) < 0 ? [...points].reverse() : points;
+  const b = polygonBounds(ccw);
+  return {
+    outline: ccw.map((p) => ({ x: p.x - b.left, y: p.y - b.bottom })),
+    width: b.right - b.left,
+    height: b.top - b.bottom,
+  };
+};
+
+export const rectangleOutline = (width: number, height: number): Point[] => [
+  { x: -width / 2, y: -height / 2 },
+  { x: width / 2, y: -height / 2 },
+  { x: width / 2, y: height / 2 },
+  { x: -width / 2, y: height / 2 },
+];
+
+// Đa giác sàn theo toạ độ thế giới (gốc ở tâm khung bao). Không khai báo
+// outline thì sàn là hình chữ nhật width × height.
+export const worldOutline = (floor: {
+  width: number;
+  height: number;
+  outline?: Point[];
+}): Point[] => {
+  if (!floor.outline || floor.outline.length < 3) {
+    return rectangleOutline(floor.width, floor.height);
+  }
+  const { outline, width, height } = normalizeOutline(floor.outline);
+  return outline.map((p) => ({ x: p.x - width / 2, y: p.y - height / 2 }));
+};
+
+// Hình chữ nhật trùng khung bao — mọi logic cũ cho sàn chữ nhật dùng được
+export const isRectangular = (poly: Point[]) => {
+  if (poly.length !== 4) return false;
+  const b = polygonBounds(poly);
+  return poly.every(
+    (p) =>
+      (Math.abs(p.x - b.left) < EPS || Math.abs(p.x - b.right) < EPS) &&
+      (Math.abs(p.y - b.bottom) < EPS || Math.abs(p.y - b.top) < EPS)
+  );
+};
+
+// Các cạnh của đa giác ngược chiều kim đồng hồ, cạnh i nối đỉnh i tới đỉnh i+1
+export const outlineEdges = (poly: Point[]): OutlineEdge[] =>
+  poly.map((a, i) => {
+    const b = poly[(i + 1) % poly.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const normal =
+      length > EPS
+        ? { x: (b.y - a.y) / length, y: -(b.x - a.x) / length }
+        : { x: 0, y: 0 };
+    return { a, b, length, normal };
+  });
+
+// Hướng chính (N/E/S/W) của một pháp tuyến
+export const dominantSide = (n: Point): Edge =>
+  Math.abs(n.y) >= Math.abs(n.x) ? (n.y > 0 ? "N" : "S") : n.x > 0 ? "E" : "W";
+
+// Pháp tuyến ra ngoài của cửa chính; cửa không mang pháp tuyến (sàn chữ
+// nhật) thì suy ra từ cạnh sàn chứa cửa
+export const doorNormal = (door: PlacedDoor): Point => {
+  if (door.normal) return door.normal;
+  const horizontal = Math.abs(door.y1 - door.y2) < EPS;
+  return horizontal
+    ? { x: 0, y: door.y1 > 0 ? 1 : -1 }
+    : { x: door.x1 > 0 ? 1 : -1, y: 0 };
+};
+
+// Cửa chính nằm trên cạnh edgeIndex, cách đỉnh đầu cạnh `offset` mét
+export const doorOnEdge = (
+  poly: Point[],
+  edgeIndex: number,
+  offset: number,
+  width: number
+): PlacedDoor => {
+  const edges = outlineEdges(poly);
+  const edge = edges[Math.max(0, Math.min(edges.length - 1, edgeIndex))];
+  const w = Math.max(0.6, Math.min(width, edge.length));
+  const off = Math.max(0, Math.min(offset, edge.length - w));
+  const ux = (edge.b.x - edge.a.x) / Math.max(edge.length, EPS),
+    uy = (edge.b.y - edge.a.y) / Math.max(edge.length, EPS);
+  return {
+    x1: edge.a.x + ux * off,
+    y1: edge.a.y + uy * off,
+    x2: edge.a.x + ux * (off + w),
+    y2: edge.a.y + uy * (off + w),
+    normal: edge.normal,
+  };
+};
+
+// Thu đa giác (ngược chiều kim đồng hồ) vào trong một khoảng d: dời từng cạnh
+// vào trong rồi lấy giao điểm của hai cạnh kề nhau
+export const insetPolygon = (poly: Point[], d: number): Point[] => {
+  const edges = outlineEdges(poly);
+  const shifted = edges.map((e) => ({
+    a: { x: e.a.x - e.normal.x * d, y: e.a.y - e.normal.y * d },
+    b: { x: e.b.x - e.normal.x * d, y: e.b.y - e.normal.y * d },
+  }));
+  return shifted.map((cur, i) => {
+    const prev = shifted[(i - 1 + shifted.length) % shifted.length];
+    const r = { x: prev.b.x - prev.a.x, y: prev.b.y - prev.a.y };
+    const s = { x: cur.b.x - cur.a.x, y: cur.b.y - cur.a.y };
+    const denom = r.x * s.y - r.y * s.x;
+    // Hai cạnh thẳng hàng: đỉnh chung chỉ dời theo pháp tuyến
+    if (Math.abs(denom) < EPS) return cur.a;
+    const t = ((cur.a.x - prev.a.x) * s.y - (cur.a.y - prev.a.y) * s.x) / denom;
+    return { x: prev.a.x + r.x * t, y: prev.a.y + r.y * t };
+  });
+};
+
+// Điểm trong đa giác (tính cả điểm nằm trên cạnh)
+export const pointInPolygon = (p: Point, poly: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i],
+      b = poly[j];
+    const cross = (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+    const onSegment =
+      Math.abs(cross) <= EPS * Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)) &&
+      p.x >= Math.min(a.x, b.x) - EPS &&
+      p.x <= Math.max(a.x, b.x) + EPS &&
+      p.y >= Math.min(a.y, b.y) - EPS &&
+      p.y <= Math.max(a.y, b.y) + EPS;
+    if (onSegment) return true;
+    if (
+      a.y > p.y !== b.y > p.y &&
+      p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Đoạn thẳng ab có đi qua phần trong của hình chữ nhật không (Liang–Barsky)
+export const segmentCrossesRect = (a: Point, b: Point, rect: Rect) => {
+  const r = rectBounds(rect);
+  const dx = b.x - a.x,
+    dy = b.y - a.y;
+  let t0 = 0,
+    t1 = 1;
+  const checks: Array<[number, number]> = [
+    [-dx, a.x - r.left],
+    [dx, r.right - a.x],
+    [-dy, a.y - r.bottom],
+    [dy, r.top - a.y],
+  ];
+  for (const [p, q] of checks) {
+    if (Math.abs(p) < EPS) {
+      if (q <= EPS) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) t0 = Math.max(t0, t);
+    else t1 = Math.min(t1, t);
+    if (t0 >= t1 - EPS) return false;
+  }
+  return true;
+};
+
+// Hình chữ nhật nằm trọn trong đa giác: bốn góc ở trong và không cạnh nào
+// của đa giác cắt qua phần trong hình chữ nhật (đa giác lõm, vd. chữ L)
+export const rectInsidePolygon = (rect: Rect, poly: Point[]) => {
+  const b = rectBounds(rect);
+  const corners = [
+    { x: b.left, y: b.bottom },
+    { x: b.right, y: b.bottom },
+    { x: b.right, y: b.top },
+    { x: b.left, y: b.top },
+  ];
+  if (!corners.every((c) => pointInPolygon(c, poly))) return false;
+  return outlineEdges(poly).every((e) => !segmentCrossesRect(e.a, e.b, rect));
+};
+
+// Diện tích phần hình chữ nhật nằm ngoài đa giác (cắt đa giác theo hình chữ
+// nhật bằng Sutherland–Hodgman)
+export const rectOutsideArea = (rect: Rect, poly: Point[]) => {
+  const b = rectBounds(rect);
+  const clips: Array<(p: Point) => number> = [
+    (p) => p.x - b.left,
+    (p) => b.right - p.x,
+    (p) => p.y - b.bottom,
+    (p) => b.top - p.y,
+  ];
+  let out = poly;
+  for (const dist of clips) {
+    const next: Point[] = [];
+    for (let i = 0; i < out.length; i++) {
+      const p = out[i],
+        q = out[(i + 1) % out.length];
+      const dp = dist(p),
+        dq = dist(q);
+      if (dp >= 0) next.push(p);
+      if (dp >= 0 !== dq >= 0) {
+        const t = dp / (dp - dq);
+        next.push({ x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t });
+      }
+    }
+    out = next;
+    if (out.length < 3) break;
+  }
+  const inside = out.length >= 3 ? polygonArea(out) : 0;
+  return Math.max(0, rect.w * rect.h - inside);
+};
+
+// Khoảng (dọc trục) mà đường thẳng ngang y = at (hoặc dọc x = at) nằm trong
+// đa giác
+export const lineInsideSpans = (
+  poly: Point[],
+  horizontal: boolean,
+  at: number
+) => {
+  const xs: number[] = [];
+  for (const e of outlineEdges(poly)) {
+    const [u1, v1, u2, v2] = horizontal
+      ? [e.a.x, e.a.y, e.b.x, e.b.y]
+      : [e.a.y, e.a.x, e.b.y, e.b.x];
+    if (v1 <= at !== v2 <= at) {
+      xs.push(u1 + ((at - v1) * (u2 - u1)) / (v2 - v1));
+    }
+  }
+  xs.sort((a, b) => a - b);
+  const spans: Array<{ start: number; end: number }> = [];
+  for (let i = 0; i + 1 < xs.length; i += 2) {
+    spans.push({ start: xs[i], end: xs[i + 1] });
+  }
+  return spans;
+};
+
+const segmentsIntersect = (a: Point, b: Point, c: Point, d: Point) => {
+  const orient = (p: Point, q: Point, r: Point) =>
+    (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+  const d1 = orient(c, d, a),
+    d2 = orient(c, d, b),
+    d3 = orient(a, b, c),
+    d4 = orient(a, b, d);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+};
+
+// Trả về thông báo lỗi nếu đa giác không dùng được làm sàn
+export const validateOutline = (points: Point[]): string | null => {
+  if (points.length < 3) return "Đường bao sàn cần ít nhất 3 đỉnh";
+  if (points.some((p) => !Number.isFinite(p.x) || !Number.isFinite(p.y))) {
+    return "Toạ độ đỉnh không hợp lệ";
+  }
+  if (polygonArea(points) < 1) return "Diện tích đường bao sàn quá nhỏ";
+  const edges = outlineEdges(points);
+  if (edges.some((e) => e.length < 0.5)) {
+    return "Mỗi cạnh đường bao phải dài ít nhất 0.5m";
+  }
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 2; j < edges.length; j++) {
+      if (i === 0 && j === edges.length - 1) continue;
+      if (segmentsIntersect(edges[i].a, edges[i].b, edges[j].a, edges[j].b)) {
+        return "Đường bao sàn tự cắt nhau";
+      }
+    }
+  }
+  return null;
+};
+
+// Sàn chữ L: khuyết một góc cutW × cutH ở góc Đông Bắc (gốc ở góc SW)
+export const lShapeOutline = (
+  width: number,
+  height: number,
+  cutW: number,
+  cutH: number
+): Point[] => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: height - cutH },
+  { x: width - cutW, y: height - cutH },
+  { x: width - cutW, y: height },
+  { x: 0, y: height },
+];
+
+// Sàn hình thang cân: cạnh Nam dài width, cạnh Bắc dài topWidth
+export const trapezoidOutline = (
+  width: number,
+  height: number,
+  topWidth: number
+): Point[] => {
+  const inset = (width - topWidth) / 2;
+  return [
+    { x: Math.max(0, -inset), y: 0 },
+    { x: Math.max(0, -inset) + width, y: 0 },
+    { x: Math.max(0, inset) + topWidth, y: height },
+    { x: Math.max(0, inset), y: height },
+  ];
+};
+
+// Danh sách đỉnh dạng "x,y" mỗi dòng (hoặc ngăn bằng ";")
+export const parseOutlineText = (text: string): Point[] =>
+  text
+    .split(/[;\n]/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [x, y] = line.split(/[,\s]+/).map(Number);
+      return { x, y };
+    });
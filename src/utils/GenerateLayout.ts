@@ -1,7 +1,77 @@
-import type { FloorInput, RoomType, Edge } from "@/components/FloorForm";
+import type {
+  FloorInput,
+  RoomType,
+  RoomSizeInput,
+  Edge,
+  StoreyInput,
+  RoomAttach,
+  RoomCorner,
+  RoomInput,
+} from "@/components/FloorForm";
 import axios from "axios";
+import { rectsOverlap } from "./RoomGeometry";
+import { CORRIDOR_TYPE, PASSAGE_TYPES, synthesizeDoors } from "./DoorSynthesis";
+import { routeCorridors, type PlacedCorridor } from "./CorridorRouting";
+import {
+  instantiateTemplate,
+  loadLayoutTemplates,
+  matchTemplates,
+  type TemplateMatch,
+} from "./LayoutTemplates";
+import { invert, transformLayout } from "./LayoutTransform";
+import {
+  annealLayout,
+  combineScores,
+  overlappingPairs,
+  scoreLayout,
+  type LayoutScore,
+} from "./LayoutSolver";
+import { createRng, randomSeed } from "./Random";
+import {
+  buildWallGraph,
+  type WallGraph,
+  type WallGraphOptions,
+} from "./WallGraph";
+import {
+  dominantSide,
+  doorNormal,
+  doorOnEdge,
+  insetPolygon,
+  isRectangular,
+  outlineEdges,
+  polygonArea,
+  rectangleOutline,
+  rectInsidePolygon,
+  segmentCrossesRect,
+  worldOutline,
+  type Point,
+} from "./FloorOutline";
+import {
+  DEFAULT_ADJACENCY_RULES,
+  adjacentPartnerTypes,
+  evaluateAdjacency,
+  isValidAdjacencyRule,
+  roomsShareWall,
+  separatedTypes,
+  type AdjacencyRule,
+} from "./AdjacencyRules";
+
+// normal: pháp tuyến ra ngoài sàn của cửa chính trên sàn đa giác
+export type PlacedDoor = {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  normal?: { x: number; y: number };
+};
 
-export type PlacedDoor = { x1: number; y1: number; x2: number; y2: number };
+// auto: cửa do bước tự động thêm cửa sinh ra, không phải người dùng nhập
+export type RoomDoor = {
+  side: Edge;
+  width: number;
+  offsetRatio: number;
+  auto?: boolean;
+};
 
 export type PlacedRoom = {
   id: string;
@@ -12,7 +82,9 @@ export type PlacedRoom = {
   h: number; // height (m)
   color: string;
   label: string;
-  rawDoors?: { side: Edge; width: number; offsetRatio: number }[];
+  rawDoors?: RoomDoor[];
+  // Đã khoá: lần tạo sau giữ nguyên vị trí và kích thước
+  locked?: boolean;
 };
 
 export interface RoomValidationResult {
@@ -31,22 +103,77 @@ export interface RoomValidationResult {
 }
 
 export type LayoutResult = {
-  floor: { width: number; height: number; mainDoor: PlacedDoor };
+  // outline: đường bao sàn đa giác (toạ độ thế giới), bỏ trống với sàn chữ nhật
+  floor: {
+    width: number;
+    height: number;
+    mainDoor: PlacedDoor;
+    outline?: Point[];
+  };
   rooms: PlacedRoom[];
+  // Hành lang nối cửa chính tới các phòng, lấy từ phần diện tích trống
+  corridors?: PlacedCorridor[];
+  // Tường đã gộp (tường ngoài, tường chung, tường đơn) kèm các ô cửa
+  walls?: WallGraph;
   warnings: string[];
   validation?: RoomValidationResult;
+  // id của bố cục mẫu đã dùng (nếu có)
+  template?: string;
+  score?: LayoutScore;
+  // Seed đã dùng — cùng FloorInput và seed luôn cho cùng kết quả
+  seed?: number;
+  // Tầng trên: lối vào là phòng này (cầu thang), không có cửa chính
+  entryRoomId?: string;
+  // Nhà nhiều tầng: mọi tầng từ tầng 1 lên. rooms/corridors/walls ở trên là
+  // của tầng 1; warnings gộp mọi tầng, score là điểm trung bình các tầng.
+  storeys?: StoreyLayout[];
 };
 
+// Một tầng của nhà nhiều tầng (cùng đường bao sàn và cửa chính)
+export type StoreyLayout = {
+  id: string;
+  name: string;
+  rooms: PlacedRoom[];
+  corridors?: PlacedCorridor[];
+  walls?: WallGraph;
+  warnings: string[];
+  score?: LayoutScore;
+  entryRoomId?: string;
+};
+
+// id của phòng cầu thang — cùng id trên mọi tầng
+export const STAIR_ID = "stair";
+
+// Nhãn các ràng buộc vị trí phòng (sát cạnh/ở góc sàn)
+export const ATTACH_LABELS: Record<RoomAttach, string> = {
+  N: "sát cạnh Bắc",
+  E: "sát cạnh Đông",
+  S: "sát cạnh Nam",
+  W: "sát cạnh Tây",
+  NE: "ở góc Đông Bắc",
+  NW: "ở góc Tây Bắc",
+  SE: "ở góc Đông Nam",
+  SW: "ở góc Tây Nam",
+};
+
+const isCorner = (attach: RoomAttach): attach is RoomCorner =>
+  attach.length === 2;
+
 interface RoomPresetsData {
   version: string;
   units: string;
   defaults: {
     voidRatio: number;
+    minCorridorWidth?: number;
   };
   roomTypes: RoomPresetConfig[];
+  // Tỉ lệ diện tích khả dụng dành cho mỗi phòng theo loại, theo từng hồ sơ
   allocationProfiles: {
     default: Record<string, number>;
+    [profile: string]: Record<string, number>;
   };
+  // Luật kề/tách giữa các loại phòng
+  adjacencyRules?: AdjacencyRule[];
 }
 
 interface RoomPresetConfig {
@@ -54,27 +181,104 @@ interface RoomPresetConfig {
   label: string;
   area: { min: number; max: number };
   color: string;
+  icon?: string;
+  // Thứ tự xếp khi tạo bố cục: số nhỏ xếp trước (mặc định 3)
+  priority?: number;
+  // Nên giáp tường ngoài (lấy sáng, thông gió, lối ra vào)
+  exteriorWall?: boolean;
+  // Đi xuyên qua được sang phòng khác (như phòng khách, bếp)
+  passage?: boolean;
   presets: Array<{ w: number; h: number; area: number }>;
 }
 
+// Thông tin một loại phòng cho giao diện chọn phòng
+export type RoomTypeInfo = {
+  type: RoomType;
+  label: string;
+  icon: string;
+  color: string;
+  // Kích thước danh nghĩa (m), dùng cho ô xem trước cửa phòng
+  size: { w: number; h: number };
+  // Khoảng diện tích (m²) và các mẫu kích thước của loại phòng
+  area: { min: number; max: number };
+  presets: RoomPresetConfig["presets"];
+};
+
 // Cache và dynamic VOID_RATIO
 let cachedPresetsData: RoomPresetsData | null = null;
 let VOID_RATIO = 0.15; // Sẽ được update từ JSON
+let ADJACENCY_RULES = DEFAULT_ADJACENCY_RULES; // Sẽ được update từ JSON
+let MIN_CORRIDOR_WIDTH = 1.0; // Sẽ được update từ JSON
+let PASSAGE = PASSAGE_TYPES; // Sẽ được update từ JSON
 
 const DOOR_W_MIN = 0.6;
 const MIN_SIDE = 1;
+// Sai số khi nhận ra tường chung: hai phòng kề nhau cách nhau đúng một bề
+// dày tường trong
+const WALL_GAP_EPS = 0.05;
 const SHRINK_STEP = 0.95;
 
+// Các loại phòng dự phòng khi không tải được room_preset.json
 const ROOM_BASE: Record<
   RoomType,
-  { area: number; aspect: number; color: string; label: string }
+  {
+    area: number;
+    aspect: number;
+    color: string;
+    label: string;
+    icon: string;
+    priority: number;
+    exteriorWall?: boolean;
+  }
 > = {
-  living: { area: 20, aspect: 1.25, color: "#b3e5fc", label: "Phòng khách" },
-  bed: { area: 14, aspect: 4 / 3.5, color: "#ffe082", label: "Phòng ngủ" },
-  kitchen: { area: 9, aspect: 1.0, color: "#c8e6c9", label: "Bếp" },
-  wc: { area: 4, aspect: 1.0, color: "#ffccbc", label: "WC" },
+  living: {
+    area: 20,
+    aspect: 1.25,
+    color: "#b3e5fc",
+    label: "Phòng khách",
+    icon: "🛋️",
+    priority: 3,
+    exteriorWall: true,
+  },
+  bed: {
+    area: 14,
+    aspect: 4 / 3.5,
+    color: "#ffe082",
+    label: "Phòng ngủ",
+    icon: "🛏️",
+    priority: 0,
+  },
+  kitchen: {
+    area: 9,
+    aspect: 1.0,
+    color: "#c8e6c9",
+    label: "Bếp",
+    icon: "🍳",
+    priority: 1,
+  },
+  wc: {
+    area: 4,
+    aspect: 1.0,
+    color: "#ffccbc",
+    label: "WC",
+    icon: "🚿",
+    priority: 2,
+  },
+  stair: {
+    area: 4,
+    aspect: 3.0,
+    color: "#d7ccc8",
+    label: "Cầu thang",
+    icon: "🪜",
+    priority: 1,
+  },
 };
 
+const DEFAULT_PRIORITY = 3;
+
+// Cầu thang mặc định khi nhà có tầng trên mà chưa khai báo cầu thang
+const DEFAULT_STAIR = { width: 1.2, length: 3.6 };
+
 // Load room presets từ JSON
 const loadRoomPresets = async (): Promise<RoomPresetsData | null> => {
   if (cachedPresetsData) return cachedPresetsData;
@@ -88,6 +292,27 @@ const loadRoomPresets = async (): Promise<RoomPresetsData | null> => {
       if (cachedPresetsData.defaults?.voidRatio) {
         VOID_RATIO = cachedPresetsData.defaults.voidRatio;
       }
+      if (cachedPresetsData.defaults?.minCorridorWidth) {
+        MIN_CORRIDOR_WIDTH = cachedPresetsData.defaults.minCorridorWidth;
+      }
+
+      // Loại phòng làm lối đi: chỉ thay mặc định khi JSON có khai báo
+      const roomTypes = cachedPresetsData.roomTypes ?? [];
+      if (roomTypes.some((rt) => rt.passage !== undefined)) {
+        PASSAGE = new Set([
+          ...roomTypes.filter((rt) => rt.passage).map((rt) => rt.type),
+          CORRIDOR_TYPE,
+        ]);
+      }
+
+      // Update ADJACENCY_RULES từ JSON
+      if (Array.isArray(cachedPresetsData.adjacencyRules)) {
+        ADJACENCY_RULES = cachedPresetsData.adjacencyRules.filter((r) => {
+          const ok = isValidAdjacencyRule(r);
+          if (!ok) console.warn("Skipping malformed adjacency rule:", r);
+          return ok;
+        });
+      }
       
       return cachedPresetsData;
     }
@@ -98,6 +323,42 @@ const loadRoomPresets = async (): Promise<RoomPresetsData | null> => {
   }
 };
 
+export const DEFAULT_ALLOCATION_PROFILE = "default";
+
+// Danh sách tên hồ sơ phân bổ diện tích có trong room_preset.json
+export const getAllocationProfiles = async (): Promise<string[]> => {
+  const presetsData = await loadRoomPresets();
+  const names = Object.keys(presetsData?.allocationProfiles ?? {});
+  return names.length ? names : [DEFAULT_ALLOCATION_PROFILE];
+};
+
+// Phiên bản của room_preset.json đang dùng (ghi vào tệp dự án)
+export const getPresetVersion = async (): Promise<string | undefined> =>
+  (await loadRoomPresets())?.version;
+
+// Các loại phòng chọn được trong form, theo thứ tự trong room_preset.json
+export const getRoomTypes = async (): Promise<RoomTypeInfo[]> => {
+  const presetsData = await loadRoomPresets();
+  const types = presetsData?.roomTypes.map((rt) => rt.type) ?? [];
+  return (types.length ? types : Object.keys(ROOM_BASE)).map((type) => {
+    const config = getRoomConfig(type, presetsData);
+    // Mẫu kích thước nhỏ nhất, không có mẫu thì lấy hình vuông theo diện tích
+    const side = Math.sqrt(config.area);
+    const [size = { w: side, h: side }] = [...config.presets].sort(
+      (a, b) => a.area - b.area
+    );
+    return {
+      type,
+      label: config.label,
+      icon: config.icon,
+      color: config.color,
+      size: { w: size.w, h: size.h },
+      area: { min: config.minArea, max: config.maxArea },
+      presets: config.presets,
+    };
+  });
+};
+
 // Get room config từ presets hoặc fallback
 const getRoomConfig = (roomType: RoomType, presetsData?: RoomPresetsData | null) => {
   if (presetsData) {
@@ -108,6 +369,9 @@ const getRoomConfig = (roomType: RoomType, presetsData?: RoomPresetsData | null)
         aspect: 1.2,
         color: config.color.startsWith('#') ? config.color : `#${config.color}`,
         label: config.label,
+        icon: config.icon ?? ROOM_BASE[roomType]?.icon ?? "🏠",
+        priority: config.priority ?? DEFAULT_PRIORITY,
+        exteriorWall: config.exteriorWall ?? false,
         minArea: config.area.min,
         maxArea: config.area.max,
         presets: config.presets
@@ -121,12 +385,125 @@ const getRoomConfig = (roomType: RoomType, presetsData?: RoomPresetsData | null)
     aspect: ROOM_BASE[roomType]?.aspect || 1.2,
     color: ROOM_BASE[roomType]?.color || "#f5f5f5",
     label: ROOM_BASE[roomType]?.label || roomType,
+    icon: ROOM_BASE[roomType]?.icon ?? "🏠",
+    priority: ROOM_BASE[roomType]?.priority ?? DEFAULT_PRIORITY,
+    exteriorWall: ROOM_BASE[roomType]?.exteriorWall ?? false,
     minArea: ROOM_BASE[roomType]?.area || 10,
     maxArea: ROOM_BASE[roomType]?.area * 2 || 20,
     presets: []
   };
 };
 
+// Yêu cầu kích thước của một phòng sau khi đối chiếu với loại phòng: fixed
+// (rộng × dài từ width/height hoặc mẫu đã chọn) hoặc diện tích mục tiêu trong
+// khoảng [min, max]. Giá trị ngoài khoảng area.min/max của loại được kẹp lại
+// kèm cảnh báo. ranged: người dùng có giới hạn diện tích riêng.
+const sizeRequestOf = (
+  size: RoomSizeInput | undefined,
+  config: ReturnType<typeof getRoomConfig>,
+  warnings: string[]
+): {
+  fixed?: { w: number; h: number };
+  area?: number;
+  min: number;
+  max: number;
+  ranged: boolean;
+} => {
+  const range = `${config.minArea}–${config.maxArea}m²`;
+  const clampArea = (v: number, what: string) => {
+    const c = Math.min(config.maxArea, Math.max(config.minArea, v));
+    if (Math.abs(c - v) > 1e-6) {
+      warnings.push(
+        `⚠️ ${config.label}: ${what} ${v}m² ngoài khoảng ${range} — dùng ${c}m²`
+      );
+    }
+    return c;
+  };
+
+  let fixed: { w: number; h: number } | undefined;
+  if (size?.width !== undefined && size.height !== undefined) {
+    fixed = { w: size.width, h: size.height };
+  } else if (size?.preset !== undefined) {
+    const preset = config.presets[size.preset];
+    if (preset) fixed = { w: preset.w, h: preset.h };
+    else {
+      warnings.push(
+        `⚠️ ${config.label}: không có mẫu kích thước số ${size.preset + 1} — bỏ qua`
+      );
+    }
+  }
+  if (fixed) {
+    const area = fixed.w * fixed.h;
+    if (area < config.minArea - 1e-6 || area > config.maxArea + 1e-6) {
+      warnings.push(
+        `⚠️ ${config.label}: ${fixed.w}×${fixed.h}m (${area.toFixed(1)}m²) ngoài khoảng ${range}`
+      );
+    }
+    return { fixed, min: area, max: area, ranged: true };
+  }
+
+  const min =
+    size?.minArea !== undefined
+      ? clampArea(size.minArea, "diện tích tối thiểu")
+      : config.minArea;
+  let max =
+    size?.maxArea !== undefined
+      ? clampArea(size.maxArea, "diện tích tối đa")
+      : config.maxArea;
+  if (max < min) {
+    warnings.push(
+      `⚠️ ${config.label}: diện tích tối đa nhỏ hơn tối thiểu — dùng ${min}m²`
+    );
+    max = min;
+  }
+  const area =
+    size?.area !== undefined
+      ? Math.min(max, Math.max(min, clampArea(size.area, "diện tích mục tiêu")))
+      : undefined;
+  return {
+    area,
+    min,
+    max,
+    ranged: size?.minArea !== undefined || size?.maxArea !== undefined,
+  };
+};
+
+// Chọn mẫu kích thước (preset) có diện tích gần targetArea nhất, vừa với sàn
+// và không vượt phần diện tích còn lại. Trả về null nếu không mẫu nào vừa.
+const pickPreset = (
+  presets: RoomPresetConfig["presets"],
+  targetArea: number,
+  maxW: number,
+  maxH: number,
+  remainingArea: number
+): { w: number; h: number } | null => {
+  let best: { w: number; h: number } | null = null;
+  let bestCost = Infinity;
+
+  for (const p of presets) {
+    // Thử cả hai chiều xoay của mẫu
+    for (const [w, h] of [
+      [p.w, p.h],
+      [p.h, p.w],
+    ]) {
+      if (w > maxW || h > maxH) continue;
+      const area = w * h;
+      if (area > remainingArea) continue;
+
+      let cost = Math.abs(area - targetArea) / Math.max(targetArea, 1e-6);
+      // Ưu tiên cạnh dài của phòng nằm dọc cạnh dài của sàn
+      if (w !== h && w > h !== maxW > maxH) cost += 0.01;
+
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = { w, h };
+      }
+    }
+  }
+
+  return best;
+};
+
 // Count rooms by type
 const countRoomsByType = (rooms: Array<{ type: RoomType }>): Array<{ type: RoomType; count: number }> => {
   const counts = rooms.reduce((acc, room) => {
@@ -140,20 +517,40 @@ const countRoomsByType = (rooms: Array<{ type: RoomType }>): Array<{ type: RoomT
   }));
 };
 
+// Như countRoomsByType, nhưng phòng có yêu cầu kích thước riêng đứng riêng
+// một dòng với diện tích tối thiểu của nó
+const roomRequirements = (
+  rooms: Array<{ type: RoomType; size?: RoomSizeInput }>,
+  presetsData: RoomPresetsData | null
+): Array<{ type: RoomType; count: number; minArea?: number }> => [
+  ...countRoomsByType(rooms.filter((r) => !r.size)),
+  ...rooms
+    .filter((r) => r.size)
+    .map((r) => ({
+      type: r.type,
+      count: 1,
+      minArea: sizeRequestOf(r.size, getRoomConfig(r.type, presetsData), [])
+        .min,
+    })),
+];
+
 // Validate room area requirements
 const validateRoomAreaRequirements = async (
   floorWidth: number,
   floorHeight: number,
-  rooms: Array<{ type: RoomType; count?: number }>,
+  rooms: Array<{ type: RoomType; count?: number; minArea?: number }>,
   voidRatio: number = VOID_RATIO,
-  exteriorWallThickness: number = 0.2
+  exteriorWallThickness: number = 0.2,
+  usableOutline?: Point[]
 ): Promise<RoomValidationResult> => {
   const presetsData = await loadRoomPresets();
   
-  // Tính usable area
+  // Tính usable area (sàn đa giác tính theo diện tích đường bao đã trừ tường)
   const innerWidth = floorWidth - (2 * exteriorWallThickness);
   const innerHeight = floorHeight - (2 * exteriorWallThickness);
-  const innerArea = Math.max(0, innerWidth * innerHeight);
+  const innerArea = usableOutline
+    ? polygonArea(usableOutline)
+    : Math.max(0, innerWidth * innerHeight);
   const usableArea = innerArea * (1 - voidRatio);
   
   let totalRequiredArea = 0;
@@ -163,7 +560,7 @@ const validateRoomAreaRequirements = async (
   for (const roomReq of rooms) {
     const count = roomReq.count || 1;
     const roomConfig = getRoomConfig(roomReq.type, presetsData);
-    const minAreaPerRoom = roomConfig.minArea;
+    const minAreaPerRoom = roomReq.minArea ?? roomConfig.minArea;
     const totalMinArea = minAreaPerRoom * count;
     
     totalRequiredArea += totalMinArea;
@@ -194,28 +591,54 @@ const validateRoomAreaRequirements = async (
 // Export validation function
 export const validateBeforeGenerate = async (input: FloorInput): Promise<RoomValidationResult> => {
   const { width: floorW, height: floorH } = input.floor;
-  const rooms = input.rooms ?? [];
   const exteriorWallThickness = input.walls?.exteriorThickness ?? 0.2;
-  
-  const roomCounts = countRoomsByType(rooms);
-  return validateRoomAreaRequirements(
-    floorW, 
-    floorH, 
-    roomCounts, 
-    VOID_RATIO, 
-    exteriorWallThickness
-  );
+
+  // Nhà nhiều tầng: kiểm tra từng tầng (tính cả cầu thang), trả về tầng thiếu
+  // diện tích nhiều nhất
+  const presetsData = await loadRoomPresets();
+  let worst: RoomValidationResult | null = null;
+  for (const level of storeyLevels(input)) {
+    const roomCounts = roomRequirements(levelRooms(input, level), presetsData);
+    const result = await validateRoomAreaRequirements(
+      floorW, 
+      floorH, 
+      roomCounts, 
+      VOID_RATIO, 
+      exteriorWallThickness,
+      usableOutlineOf(input)
+    );
+    if (!worst || result.shortage > worst.shortage) worst = result;
+  }
+  return worst!;
 };
 
-const rectsOverlap = (
-  a: { x: number; y: number; w: number; h: number },
-  b: { x: number; y: number; w: number; h: number }
-) => {
-  return !(
-    a.x + a.w / 2 <= b.x - b.w / 2 ||
-    a.x - a.w / 2 >= b.x + b.w / 2 ||
-    a.y + a.h / 2 <= b.y - b.h / 2 ||
-    a.y - a.h / 2 >= b.y + b.h / 2
+// Các tầng của dữ liệu nhập: tầng 1 dùng `rooms`, tiếp theo là upperStoreys
+const storeyLevels = (input: FloorInput): StoreyInput[] => [
+  { id: "storey_1", name: "Tầng 1", rooms: input.rooms ?? [] },
+  ...(input.upperStoreys ?? []),
+];
+
+// Phòng cần kiểm tra diện tích của một tầng — cầu thang chiếm chỗ trên mọi tầng
+const levelRooms = (input: FloorInput, level: StoreyInput) =>
+  stairInputOf(input) ? [...level.rooms, { type: "stair" }] : level.rooms;
+
+// Cầu thang của dữ liệu nhập; nhà có tầng trên mà chưa khai báo thì dùng
+// kích thước mặc định
+const stairInputOf = (input: FloorInput) =>
+  input.stair ?? (input.upperStoreys?.length ? DEFAULT_STAIR : undefined);
+
+// Đường bao sàn theo toạ độ thế giới — undefined với sàn chữ nhật để mọi
+// đường tính cũ giữ nguyên
+const floorOutlineOf = (input: FloorInput): Point[] | undefined => {
+  const outline = worldOutline(input.floor);
+  return isRectangular(outline) ? undefined : outline;
+};
+
+// Vùng đặt phòng của sàn đa giác: đường bao lùi vào một bề dày tường ngoài
+const usableOutlineOf = (input: FloorInput): Point[] | undefined => {
+  const outline = floorOutlineOf(input);
+  return (
+    outline && insetPolygon(outline, input.walls?.exteriorThickness ?? 0.2)
   );
 };
 
@@ -269,6 +692,39 @@ const mainDoorToLine = (
   };
 };
 
+// Cửa chính của dữ liệu nhập. Sàn đa giác đặt cửa trên cạnh edgeIndex;
+// thiếu edgeIndex thì dùng cạnh dài nhất quay về hướng edge
+const mainDoorLine = (input: FloorInput, outline?: Point[]): PlacedDoor => {
+  const { width, height, mainDoor } = input.floor;
+  if (!outline) {
+    return mainDoorToLine(
+      width,
+      height,
+      mainDoor.edge,
+      mainDoor.offset,
+      mainDoor.width
+    );
+  }
+  let index = mainDoor.edgeIndex ?? -1;
+  if (index < 0 || index >= outline.length) {
+    const edges = outlineEdges(outline);
+    index = edges.reduce(
+      (best, e, i) =>
+        dominantSide(e.normal) === mainDoor.edge &&
+        (best < 0 || e.length > edges[best].length)
+          ? i
+          : best,
+      -1
+    );
+  }
+  return doorOnEdge(
+    outline,
+    Math.max(0, index),
+    mainDoor.offset,
+    mainDoor.width
+  );
+};
+
 const idealCornerCenterUsable = (
   usableW: number,
   usableH: number,
@@ -284,182 +740,414 @@ const idealCornerCenterUsable = (
   return { x: halfW - w / 2, y: -halfH + h / 2 };
 };
 
-// Enhanced tryFixedLayout với presets
-const tryFixedLayout = async (input: FloorInput): Promise<LayoutResult | null> => {
-  const { width: floorW, height: floorH, mainDoor } = input.floor;
-  const rooms = input.rooms ?? [];
-  const exteriorWallThickness = input.walls?.exteriorThickness ?? 0.15;
+// Vị trí tâm (lưới 0.1m) để hình chữ nhật w × h nằm trọn trong đa giác (và
+// thoả `free`): lệch khỏi `target` theo pháp tuyến `normal` ít nhất (vẫn sát
+// cạnh có cửa), rồi gần `target` nhất; null nếu không vừa chỗ nào
+const nearestFit = (
+  poly: Point[],
+  w: number,
+  h: number,
+  target: Point,
+  normal: Point,
+  free: (rect: {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  }) => boolean = () => true
+): Point | null => {
+  const STEP = 0.1;
+  const xs = poly.map((p) => p.x),
+    ys = poly.map((p) => p.y);
+  const left = Math.min(...xs) + w / 2,
+    right = Math.max(...xs) - w / 2;
+  const bottom = Math.min(...ys) + h / 2,
+    top = Math.max(...ys) - h / 2;
+  // Lưới neo tại target để vị trí sát cạnh (nếu vừa) không bị lệch lưới
+  const i0 = Math.ceil((left - target.x) / STEP - 1e-9),
+    i1 = Math.floor((right - target.x) / STEP + 1e-9);
+  const j0 = Math.ceil((bottom - target.y) / STEP - 1e-9),
+    j1 = Math.floor((top - target.y) / STEP + 1e-9);
+  let best: Point | null = null,
+    bestKey = [Infinity, Infinity];
+  for (let j = j0; j <= j1; j++) {
+    for (let i = i0; i <= i1; i++) {
+      const dx = i * STEP,
+        dy = j * STEP;
+      const key = [
+        Math.round(Math.abs(dx * normal.x + dy * normal.y) / STEP),
+        dx * dx + dy * dy,
+      ];
+      const better =
+        key[0] < bestKey[0] || (key[0] === bestKey[0] && key[1] < bestKey[1]);
+      const rect = { x: target.x + dx, y: target.y + dy, w, h };
+      if (!better || !rectInsidePolygon(rect, poly) || !free(rect)) continue;
+      best = { x: target.x + dx, y: target.y + dy };
+      bestKey = key;
+    }
+  }
+  return best;
+};
+
+// Cầu thang đặt trước mọi phòng khác và giữ nguyên vị trí trên mọi tầng: theo
+// toạ độ nhập, hoặc ở góc sàn xa cửa chính nhất còn vừa. Chiều dài cầu thang
+// chạy dọc cạnh dài của sàn.
+const placeStair = (
+  input: FloorInput,
+  presetsData: RoomPresetsData | null,
+  warnings: string[]
+): PlacedRoom | null => {
+  const spec = input.stair;
+  if (!spec) return null;
+  const ext = input.walls?.exteriorThickness ?? 0.2;
+  const usableW = input.floor.width - 2 * ext;
+  const usableH = input.floor.height - 2 * ext;
+  const alongX = usableW >= usableH;
+  const w = alongX ? spec.length : spec.width;
+  const h = alongX ? spec.width : spec.length;
+  const config = getRoomConfig("stair", presetsData);
+  const stairAt = (p: Point): PlacedRoom => ({
+    id: STAIR_ID,
+    type: "stair",
+    x: p.x,
+    y: p.y,
+    w,
+    h,
+    color: config.color,
+    label: config.label,
+  });
+  const region = usableOutlineOf(input) ?? rectangleOutline(usableW, usableH);
+  // Vị trí nhập tay nằm ngoài sàn khả dụng thì đặt tự động như khi bỏ trống
+  if (spec.x !== undefined && spec.y !== undefined) {
+    const manual = stairAt({ x: spec.x, y: spec.y });
+    if (rectInsidePolygon(manual, region)) return manual;
+    warnings.push(
+      `⚠️ ${config.label}: vị trí nhập nằm ngoài sàn — đặt tự động vào góc.`
+    );
+  }
+
+  const md = mainDoorLine(input, floorOutlineOf(input));
+  const door = { x: (md.x1 + md.x2) / 2, y: (md.y1 + md.y2) / 2 };
+  const dist = (p: Point) => (p.x - door.x) ** 2 + (p.y - door.y) ** 2;
+  const corners = (["NW", "NE", "SW", "SE"] as const)
+    .map((c) => idealCornerCenterUsable(usableW, usableH, c, w, h))
+    .filter((p) => rectInsidePolygon({ ...p, w, h }, region))
+    .sort((a, b) => dist(b) - dist(a));
+  if (corners.length) return stairAt(corners[0]);
+  // Sàn đa giác khuyết các góc: chỗ vừa gần điểm đối xứng với cửa chính nhất
+  const fit = nearestFit(
+    region,
+    w,
+    h,
+    { x: -door.x, y: -door.y },
+    { x: 0, y: 0 }
+  );
+  return fit && stairAt(fit);
+};
+
+// Dựng bố cục từ một mẫu đã khớp trong layout_templates.json. Bố cục được
+// dựng theo hướng gốc của mẫu rồi xoay/lật trở lại hướng của dữ liệu nhập.
+const layoutFromTemplate = async (
+  match: TemplateMatch
+): Promise<LayoutResult | null> => {
+  const placements = instantiateTemplate(match.template, match.input);
+  if (!placements) return null;
 
   // Load presets data
   const presetsData = await loadRoomPresets();
 
-  // Case 1: Nhà ống 20×5m (cửa Tây)
-  if (floorW === 20 && floorH === 5 && mainDoor.edge === "W") {
-    const roomCounts = rooms.reduce((acc, r) => {
-      acc[r.type] = (acc[r.type] || 0) + 1;
-      return acc;
-    }, {} as Record<RoomType, number>);
+  const { width: floorW, height: floorH, mainDoor } = match.input.floor;
+  const byId = new Map(match.input.rooms.map((r) => [r.id, r]));
+  const placed: PlacedRoom[] = placements.map((p) => {
+    const roomConfig = getRoomConfig(p.type, presetsData);
+    const room: PlacedRoom = {
+      id: p.id,
+      type: p.type,
+      x: p.x,
+      y: p.y,
+      w: p.w,
+      h: p.h,
+      color: roomConfig.color,
+      label: p.count > 1 ? `${roomConfig.label} ${p.index}` : roomConfig.label,
+    };
+    const src = byId.get(p.id);
+    if (src?.doors?.length) {
+      room.rawDoors = src.doors.map((d) => ({
+        side: d.side,
+        width: d.width,
+        offsetRatio: d.offsetRatio,
+      }));
+    }
+    return room;
+  });
 
-    if (
-      roomCounts.bed === 2 &&
-      roomCounts.wc === 2 &&
-      roomCounts.kitchen === 1 &&
-      roomCounts.living === 1
-    ) {
-      const roomsByType = rooms.reduce((acc, r) => {
-        if (!acc[r.type]) acc[r.type] = [];
-        acc[r.type].push(r);
-        return acc;
-      }, {} as Record<RoomType, typeof rooms>);
-
-      const offsetX = exteriorWallThickness;
-
-      const placed: PlacedRoom[] = [
-        {
-          id: roomsByType.living[0].id,
-          type: "living",
-          x: -7.0 + offsetX,
-          y: 0,
-          w: 6.0,
-          h: 5.0 - 2 * exteriorWallThickness,
-          color: getRoomConfig("living", presetsData).color,
-          label: getRoomConfig("living", presetsData).label,
-        },
-        {
-          id: roomsByType.kitchen[0].id,
-          type: "kitchen",
-          x: 8.25 + offsetX,
-          y: 0.75,
-          w: 3.5,
-          h: 3.5,
-          color: getRoomConfig("kitchen", presetsData).color,
-          label: getRoomConfig("kitchen", presetsData).label,
-        },
-        {
-          id: roomsByType.bed[0].id,
-          type: "bed",
-          x: -1.5 + offsetX,
-          y: -0.75,
-          w: 5.0,
-          h: 3.5,
-          color: getRoomConfig("bed", presetsData).color,
-          label: `${getRoomConfig("bed", presetsData).label} 1`,
-        },
-        {
-          id: roomsByType.bed[1].id,
-          type: "bed",
-          x: 5.0 + offsetX,
-          y: -0.75,
-          w: 3.0,
-          h: 3.5,
-          color: getRoomConfig("bed", presetsData).color,
-          label: `${getRoomConfig("bed", presetsData).label} 2`,
-        },
-        {
-          id: roomsByType.wc[0].id,
-          type: "wc",
-          x: 2.25 + offsetX,
-          y: -0.75,
-          w: 2.5,
-          h: 3.5,
-          color: getRoomConfig("wc", presetsData).color,
-          label: `${getRoomConfig("wc", presetsData).label} 1`,
-        },
-        {
-          id: roomsByType.wc[1].id,
-          type: "wc",
-          x: 8.25 + offsetX,
-          y: -1.75,
-          w: 3.5,
-          h: 1.5,
-          color: getRoomConfig("wc", presetsData).color,
-          label: `${getRoomConfig("wc", presetsData).label} 2`,
-        },
-      ];
+  return transformLayout(
+    {
+      floor: {
+        width: floorW,
+        height: floorH,
+        mainDoor: mainDoorToLine(
+          floorW,
+          floorH,
+          mainDoor.edge,
+          mainDoor.offset,
+          mainDoor.width
+        ),
+      },
+      rooms: placed,
+      warnings: [],
+      template: match.template.id,
+    },
+    invert(match.transform)
+  );
+};
 
-      const byId = new Map(rooms.map((r) => [r.id, r]));
-      for (const p of placed) {
-        const src = byId.get(p.id);
-        if (src?.doors?.length) {
-          p.rawDoors = src.doors.map((d) => ({
-            side: d.side,
-            width: d.width,
-            offsetRatio: d.offsetRatio,
-          }));
-        }
-      }
+// Mọi bố cục mẫu dùng được cho dữ liệu nhập (mỗi mẫu/hướng khớp một bố cục)
+const templateLayouts = async (input: FloorInput): Promise<LayoutResult[]> => {
+  // Bố cục mẫu chỉ dựng cho sàn chữ nhật không có cầu thang, và khi không
+  // phòng nào có yêu cầu kích thước, ràng buộc vị trí hay đã khoá
+  if (
+    floorOutlineOf(input) ||
+    input.stair ||
+    (input.rooms ?? []).some((r) => r.size || r.attach || r.pin)
+  ) {
+    return [];
+  }
+  const templates = await loadLayoutTemplates();
+  const layouts: LayoutResult[] = [];
+  for (const match of matchTemplates(templates, input)) {
+    const layout = await layoutFromTemplate(match);
+    if (layout) layouts.push(layout);
+  }
+  return layouts;
+};
 
-      return {
-        floor: {
-          width: floorW,
-          height: floorH,
-          mainDoor: mainDoorToLine(
-            floorW,
-            floorH,
-            mainDoor.edge,
-            mainDoor.offset,
-            mainDoor.width
-          ),
-        },
-        rooms: placed,
-        warnings: [],
-      };
+const interiorThicknessOf = (input: FloorInput) =>
+  Math.max(0, input.walls?.interiorThickness ?? 0.1);
+
+// Cảnh báo cho các luật kề/tách không thoả được
+const adjacencyWarnings = (rooms: PlacedRoom[], maxGap: number) =>
+  evaluateAdjacency(rooms, ADJACENCY_RULES, maxGap).violations.map(
+    ({ rule, room, partner }) => {
+      const other =
+        partner?.label ?? getRoomConfig(rule.b, cachedPresetsData).label;
+      if (rule.rule === "adjacent") {
+        return `⚠️ ${room.label} không kề ${other} như yêu cầu`;
+      }
+      if (rule.rule === "separate") {
+        return `⚠️ ${room.label} không được chung tường với ${other}`;
+      }
+      return `⚠️ ${room.label} không được mở cửa sang ${other}`;
     }
+  );
+
+// Cảnh báo các phòng nên giáp tường ngoài (exteriorWall) mà không chạm cạnh
+// nào của vùng khả dụng
+const exteriorWallWarnings = (rooms: PlacedRoom[], usable: Point[]) => {
+  const edges = outlineEdges(usable);
+  return rooms
+    .filter(
+      (r) =>
+        getRoomConfig(r.type, cachedPresetsData).exteriorWall &&
+        !edges.some((e) =>
+          segmentCrossesRect(e.a, e.b, {
+            ...r,
+            w: r.w + 2 * WALL_GAP_EPS,
+            h: r.h + 2 * WALL_GAP_EPS,
+          })
+        )
+    )
+    .map((r) => `⚠️ ${r.label} nên giáp tường ngoài`);
+};
+
+// Bước cuối: đặt hành lang vào phần diện tích trống, tự động thêm cửa giữa
+// các phòng để mọi phòng đều đi tới được từ cửa chính, kiểm tra luật kề/tách,
+// dựng đồ thị tường rồi chấm điểm bố cục
+const finalizeLayout = (
+  input: FloorInput,
+  layout: LayoutResult
+): LayoutResult => {
+  const exteriorThickness = input.walls?.exteriorThickness ?? 0.2;
+  const wallThickness = interiorThicknessOf(input);
+  const maxGap = wallThickness + WALL_GAP_EPS;
+  const usableW = layout.floor.width - 2 * exteriorThickness;
+  const usableH = layout.floor.height - 2 * exteriorThickness;
+  const outline =
+    layout.floor.outline &&
+    insetPolygon(layout.floor.outline, exteriorThickness);
+  const { entryRoomId } = layout;
+
+  const { corridors, area } = routeCorridors(layout.rooms, {
+    usableW,
+    usableH,
+    width: input.corridorWidth ?? MIN_CORRIDOR_WIDTH,
+    mainDoor: layout.floor.mainDoor,
+    exteriorThickness,
+    wallThickness,
+    adjacencyRules: ADJACENCY_RULES,
+    outline,
+    entryRoomId,
+    passageTypes: PASSAGE,
+  });
+  const budget =
+    (outline ? polygonArea(outline) : usableW * usableH) * VOID_RATIO;
+  let result: LayoutResult = {
+    ...layout,
+    corridors,
+    warnings:
+      area > budget + 1e-6
+        ? [
+            ...layout.warnings,
+            `⚠️ Hành lang chiếm ${area.toFixed(1)}m², vượt phần diện tích lưu thông ${budget.toFixed(1)}m²`,
+          ]
+        : layout.warnings,
+  };
+
+  if (input.autoDoors !== false) {
+    const { rooms, warnings } = synthesizeDoors(
+      result.rooms,
+      result.floor.mainDoor,
+      {
+        exteriorThickness,
+        maxGap,
+        adjacencyRules: ADJACENCY_RULES,
+        corridors,
+        entryRoomId,
+        passageTypes: PASSAGE,
+      }
+    );
+    result = { ...result, rooms, warnings: [...result.warnings, ...warnings] };
   }
+  result = {
+    ...result,
+    warnings: [
+      ...result.warnings,
+      ...adjacencyWarnings(result.rooms, maxGap),
+      ...exteriorWallWarnings(
+        result.rooms,
+        outline ?? rectangleOutline(usableW, usableH)
+      ),
+    ],
+  };
 
-  return null;
+  const score = scoreLayout(result.rooms, {
+    usableW,
+    usableH,
+    voidRatio: VOID_RATIO,
+    mainDoor: result.floor.mainDoor,
+    exteriorThickness,
+    wallThickness,
+    adjacencyRules: ADJACENCY_RULES,
+    corridors,
+    outline,
+    entryRoomId,
+    passageTypes: PASSAGE,
+  });
+  const walls = layoutWallGraph(result, result.rooms, {
+    exteriorThickness,
+    interiorThickness: wallThickness,
+  });
+  return { ...result, walls, score };
 };
 
-// ✅ Main generateLayout function - BỎ early return khi validation fail
-const generateLayout = async (
-  input: FloorInput, 
-  skipValidation: boolean = false
+// Đồ thị tường của một tầng với các phòng cho trước (tầng trên không khoét
+// cửa chính)
+export const layoutWallGraph = (
+  layout: LayoutResult,
+  rooms: PlacedRoom[],
+  options: WallGraphOptions
+): WallGraph =>
+  buildWallGraph(
+    rooms,
+    layout.entryRoomId
+      ? { ...layout.floor, mainDoor: undefined }
+      : layout.floor,
+    options
+  );
+
+// Kiểm tra diện tích trước khi xếp — chỉ tính toán, không chặn việc tạo bố cục
+const computeValidation = async (
+  input: FloorInput
+): Promise<RoomValidationResult | undefined> => {
+  try {
+    const { width: floorW, height: floorH } = input.floor;
+    // Cùng cách xác định cầu thang với validateBeforeGenerate
+    const rooms = stairInputOf(input)
+      ? [...(input.rooms ?? []), { type: "stair" }]
+      : (input.rooms ?? []);
+    const exteriorWallThickness = input.walls?.exteriorThickness ?? 0.2;
+
+    const roomCounts = roomRequirements(rooms, cachedPresetsData);
+    return await validateRoomAreaRequirements(
+      floorW,
+      floorH,
+      roomCounts,
+      VOID_RATIO,
+      exteriorWallThickness,
+      usableOutlineOf(input)
+    );
+  } catch (error) {
+    console.warn('Validation failed, proceeding with generation:', error);
+    return undefined;
+  }
+};
+
+// Xếp phòng không theo mẫu: tham lam, rồi (tuỳ chọn) tối ưu bằng mô phỏng luyện kim
+// entryRoomId: tầng trên, đi vào từ cầu thang thay cho cửa chính
+const solveLayout = async (
+  input: FloorInput,
+  validation: RoomValidationResult | undefined,
+  rng: () => number,
+  entryRoomId?: string
 ): Promise<LayoutResult> => {
   // Load presets data
   const presetsData = await loadRoomPresets();
-  
-  // ✅ Validation step - CHỈ tính toán, KHÔNG early return
-  let validation: RoomValidationResult | undefined;
-  
-  if (!skipValidation) {
-    try {
-      const { width: floorW, height: floorH } = input.floor;
-      const rooms = input.rooms ?? [];
-      const exteriorWallThickness = input.walls?.exteriorThickness ?? 0.2;
-      
-      const roomCounts = countRoomsByType(rooms);
-      validation = await validateRoomAreaRequirements(
-        floorW, 
-        floorH, 
-        roomCounts, 
-        VOID_RATIO, 
-        exteriorWallThickness
-      );
-      
-      // ❌ BỎ early return - Không return khi validation fail
-      
-    } catch (error) {
-      console.warn('Validation failed, proceeding with generation:', error);
-    }
-  }
-
-  // Try fixed layout first
-  const fixed = await tryFixedLayout(input);
-  if (fixed) {
-    return {
-      ...fixed,
-      validation
-    };
-  }
 
   const { width: floorW, height: floorH, mainDoor } = input.floor;
   const exteriorWallThickness = input.walls?.exteriorThickness ?? 0.2;
+  const wallThickness = interiorThicknessOf(input);
 
   const usableW = floorW - 2 * exteriorWallThickness;
   const usableH = floorH - 2 * exteriorWallThickness;
+  const outline = floorOutlineOf(input);
+  const usableOutline = usableOutlineOf(input);
 
   const warnings: string[] = [];
-  const placed: PlacedRoom[] = [];
+  const stair = placeStair(input, presetsData, warnings);
+  if (input.stair && !stair) {
+    warnings.push(
+      `${getRoomConfig("stair", presetsData).label}: không thể đặt — bỏ qua.`
+    );
+  }
+  let placed: PlacedRoom[] = stair ? [stair] : [];
+
+  // Phòng đã khoá giữ nguyên chỗ như cầu thang; chỗ cũ không còn hợp lệ
+  // (sàn đổi kích thước, chồng lấn phòng khác) thì xếp lại như phòng thường
+  const pinnedIds = new Set<string>();
+  for (const r of input.rooms ?? []) {
+    if (!r.pin) continue;
+    const roomConfig = getRoomConfig(r.type, presetsData);
+    const cand = { x: r.pin.x, y: r.pin.y, w: r.pin.w, h: r.pin.h };
+    const inside = usableOutline
+      ? rectInsidePolygon(cand, usableOutline)
+      : Math.abs(cand.x) + cand.w / 2 <= usableW / 2 + 1e-6 &&
+        Math.abs(cand.y) + cand.h / 2 <= usableH / 2 + 1e-6;
+    if (!inside || placed.some((p) => rectsOverlap(cand, p))) {
+      warnings.push(
+        `⚠️ ${roomConfig.label}: vị trí đã khoá không còn hợp lệ — xếp lại`
+      );
+      continue;
+    }
+    placed.push({
+      id: r.id,
+      type: r.type,
+      ...cand,
+      color: roomConfig.color,
+      label: roomConfig.label,
+      locked: true,
+    });
+    pinnedIds.add(r.id);
+  }
 
   // Add validation warnings
   if (validation && validation.efficiency < 60) {
@@ -469,47 +1157,141 @@ const generateLayout = async (
     warnings.push(`⚠️ Hiệu suất sử dụng quá cao: ${validation.efficiency.toFixed(1)}% - có thể thiếu không gian lưu thông`);
   }
 
-  const expanded = (input.rooms ?? []).map((r) => ({
-    id: r.id,
-    type: r.type,
-  })) as {
+  const expanded = (input.rooms ?? [])
+    .filter((r) => !pinnedIds.has(r.id))
+    .map((r) => ({
+      id: r.id,
+      type: r.type,
+      size: r.size,
+      attach: r.attach,
+    })) as {
     id: string;
     type: RoomType;
+    size?: RoomSizeInput;
+    attach?: RoomAttach;
   }[];
+  const requests = expanded.map((r) =>
+    sizeRequestOf(r.size, getRoomConfig(r.type, presetsData), warnings)
+  );
 
-  const usableArea = usableW * usableH * (1 - VOID_RATIO);
+  // Phần cầu thang chiếm chỗ không chia cho các phòng; phòng đã khoá vẫn
+  // tính vào tổng để các phòng còn lại giữ tỉ lệ như khi chưa khoá
+  const usableArea =
+    (usableOutline ? polygonArea(usableOutline) : usableW * usableH) *
+      (1 - VOID_RATIO) -
+    (stair ? stair.w * stair.h : 0);
+  const pinnedArea = placed
+    .filter((p) => pinnedIds.has(p.id))
+    .reduce((s, p) => s + p.w * p.h, 0);
   
   // Use preset data cho sizing
-  const desiredSum = expanded.reduce((s, r) => {
+  const desiredSum = expanded.reduce((s, r, idx) => {
     const roomConfig = getRoomConfig(r.type, presetsData);
-    return s + roomConfig.area;
-  }, 0) || 1;
+    const { fixed, area } = requests[idx];
+    return s + (fixed ? fixed.w * fixed.h : (area ?? roomConfig.area));
+  }, pinnedArea) || 1;
   
   const scale = Math.min(1, usableArea / desiredSum);
 
-  const sized = expanded.map((r) => {
+  // Hồ sơ phân bổ: mỗi phòng nhận một tỉ lệ diện tích khả dụng theo loại
+  const profileName = input.allocationProfile ?? DEFAULT_ALLOCATION_PROFILE;
+  let profile = presetsData?.allocationProfiles?.[profileName];
+  if (presetsData && !profile) {
+    warnings.push(
+      `⚠️ Không tìm thấy hồ sơ phân bổ "${profileName}" — dùng "${DEFAULT_ALLOCATION_PROFILE}"`
+    );
+    profile = presetsData.allocationProfiles?.[DEFAULT_ALLOCATION_PROFILE];
+  }
+  const shareSum = profile
+    ? expanded.reduce((s, r) => s + (profile[r.type] ?? 0), 0)
+    : 0;
+
+  const targets = expanded.map((r, idx) => {
+    const roomConfig = getRoomConfig(r.type, presetsData);
+    const req = requests[idx];
+    // Kích thước/diện tích người dùng nhập được ưu tiên hơn hồ sơ phân bổ
+    if (req.fixed) return req.fixed.w * req.fixed.h;
+    if (req.area !== undefined) return req.area;
+    const share = profile?.[r.type];
+    if (!share) {
+      const area = Math.max(MIN_SIDE * MIN_SIDE, roomConfig.area * scale);
+      return req.ranged ? Math.min(req.max, Math.max(req.min, area)) : area;
+    }
+    // Tổng tỉ lệ vượt 1 thì chia lại theo tỉ lệ, kẹp trong khoảng min/max
+    // của loại (hoặc của phòng nếu người dùng nhập)
+    const area = (usableArea * share) / Math.max(1, shareSum);
+    return Math.max(
+      MIN_SIDE * MIN_SIDE,
+      Math.min(req.max, Math.max(req.min, area))
+    );
+  });
+  let allocated = pinnedArea;
+
+  const sized = expanded.map((r, idx) => {
     const roomConfig = getRoomConfig(r.type, presetsData);
-    const area = Math.max(MIN_SIDE * MIN_SIDE, roomConfig.area * scale);
-    let w = Math.sqrt(area * roomConfig.aspect);
-    let h = Math.max(MIN_SIDE, area / w);
+    const area = targets[idx];
+    const req = requests[idx];
+
+    // Phần diện tích còn lại sau khi chừa chỗ cho các phòng chưa tính
+    const reserved = targets.slice(idx + 1).reduce((s, a) => s + a, 0);
+    const preset = req.fixed
+      ? null
+      : pickPreset(
+          req.ranged
+            ? roomConfig.presets.filter(
+                (p) => p.area >= req.min - 1e-6 && p.area <= req.max + 1e-6
+              )
+            : roomConfig.presets,
+          area,
+          usableW,
+          usableH,
+          usableArea - allocated - reserved
+        );
 
-    if (w > usableW) {
-      w = Math.max(MIN_SIDE, usableW);
+    let w: number, h: number;
+    if (req.fixed) {
+      ({ w, h } = req.fixed);
+      // Không vừa theo chiều nhập thì xoay, vẫn không vừa thì thu nhỏ
+      if ((w > usableW || h > usableH) && h <= usableW && w <= usableH) {
+        [w, h] = [h, w];
+      }
+      if (w > usableW || h > usableH) {
+        warnings.push(
+          `⚠️ ${roomConfig.label}: kích thước ${w}×${h}m không vừa sàn — đã thu nhỏ`
+        );
+        w = Math.min(w, usableW);
+        h = Math.min(h, usableH);
+      }
+    } else if (preset) {
+      w = preset.w;
+      h = preset.h;
+    } else {
+      w = Math.sqrt(area * roomConfig.aspect);
       h = Math.max(MIN_SIDE, area / w);
+
+      if (w > usableW) {
+        w = Math.max(MIN_SIDE, usableW);
+        h = Math.max(MIN_SIDE, area / w);
+      }
+      if (h > usableH) {
+        h = Math.max(MIN_SIDE, usableH);
+        w = Math.max(MIN_SIDE, area / h);
+      }
     }
-    if (h > usableH) {
-      h = Math.max(MIN_SIDE, usableH);
-      w = Math.max(MIN_SIDE, area / h);
-    }
+    allocated += w * h;
 
     return {
       id: r.id,
       type: r.type,
       w,
       h,
-      area,
+      area: w * h,
       color: roomConfig.color,
       label: roomConfig.label,
+      attach: r.attach,
+      fixedSize: Boolean(req.fixed),
+      // Không co nhỏ hơn diện tích tối thiểu người dùng nhập
+      minArea: req.ranged ? req.min : 0,
     };
   });
 
@@ -517,13 +1299,9 @@ const generateLayout = async (
   const halfUsableW = usableW / 2;
   const halfUsableH = usableH / 2;
 
-  const mdLine = mainDoorToLine(
-    floorW,
-    floorH,
-    mainDoor.edge,
-    mainDoor.offset,
-    mainDoor.width
-  );
+  const mdLine = mainDoorLine(input, outline);
+  // Hướng chính của cửa chính (sàn đa giác: theo pháp tuyến cạnh chứa cửa)
+  const doorSide = outline ? dominantSide(doorNormal(mdLine)) : mainDoor.edge;
 
   const mdCenter = {
     x: (mdLine.x1 + mdLine.x2) / 2,
@@ -544,23 +1322,32 @@ const generateLayout = async (
       }
     | undefined;
 
-  if (livingBase) {
+  // Phòng mới phải cách các phòng đã đặt ít nhất một bề dày tường trong
+  // (tường chung chỉ tính một lần); sát tường ngoài thì không cần chừa
+  const withWall = (cand: { x: number; y: number; w: number; h: number }) => {
+    const grow = Math.max(0, 2 * wallThickness - 1e-6);
+    return { x: cand.x, y: cand.y, w: cand.w + grow, h: cand.h + grow };
+  };
+
+  // Tầng trên không có cửa chính — phòng khách xếp như các phòng khác (cả
+  // khi người dùng buộc nó vào một cạnh/góc)
+  if (livingBase && !entryRoomId && !livingBase.attach) {
     let lx = 0,
       ly = 0;
 
-    if (mainDoor.edge === "S") {
+    if (doorSide === "S") {
       ly = -halfUsableH + livingBase.h / 2;
       lx = Math.max(
         -halfUsableW + livingBase.w / 2,
         Math.min(halfUsableW - livingBase.w / 2, mdCenter.x)
       );
-    } else if (mainDoor.edge === "N") {
+    } else if (doorSide === "N") {
       ly = halfUsableH - livingBase.h / 2;
       lx = Math.max(
         -halfUsableW + livingBase.w / 2,
         Math.min(halfUsableW - livingBase.w / 2, mdCenter.x)
       );
-    } else if (mainDoor.edge === "E") {
+    } else if (doorSide === "E") {
       lx = halfUsableW - livingBase.w / 2;
       ly = Math.max(
         -halfUsableH + livingBase.h / 2,
@@ -574,15 +1361,38 @@ const generateLayout = async (
       );
     }
 
-    livingRect = {
-      ...livingBase,
-      x: lx,
-      y: ly,
-      id: livingBase.id,
-      type: "living",
-      color: livingBase.color,
-      label: livingBase.label,
-    };
+    // Sàn đa giác: vị trí sát cạnh khung bao có thể rơi ra ngoài đường bao;
+    // chỗ đó cũng có thể vướng cầu thang hay phòng đã khoá — chọn chỗ vừa
+    // gần cửa chính nhất
+    const fixedRooms = [...placed];
+    const clearOfFixed = (r: { x: number; y: number; w: number; h: number }) =>
+      !fixedRooms.some((p) => rectsOverlap(withWall(r), p));
+    const target = { x: lx, y: ly, w: livingBase.w, h: livingBase.h };
+    const fit =
+      usableOutline || !clearOfFixed(target)
+        ? nearestFit(
+            usableOutline ?? rectangleOutline(usableW, usableH),
+            livingBase.w,
+            livingBase.h,
+            target,
+            doorNormal(mdLine),
+            clearOfFixed
+          )
+        : target;
+    if (fit) {
+      livingRect = {
+        ...livingBase,
+        x: fit.x,
+        y: fit.y,
+        id: livingBase.id,
+        type: "living",
+        color: livingBase.color,
+        label: livingBase.label,
+      };
+    }
+  }
+  if (livingRect) {
+    const { x: lx, y: ly } = livingRect;
     placed.push({
       id: livingRect.id,
       type: "living",
@@ -601,20 +1411,96 @@ const generateLayout = async (
     w: number;
     h: number;
   }) =>
-    placed.some((p) => rectsOverlap(cand, { x: p.x, y: p.y, w: p.w, h: p.h }));
+    placed.some((p) =>
+      rectsOverlap(withWall(cand), { x: p.x, y: p.y, w: p.w, h: p.h })
+    );
+
+  // strict: còn tôn trọng luật tách (không chung tường với loại phòng bị cấm)
+  const clashes = (
+    cand: { x: number; y: number; w: number; h: number },
+    type: RoomType,
+    strict: boolean
+  ) => {
+    if (
+      (usableOutline && !rectInsidePolygon(cand, usableOutline)) ||
+      (livingRect && rectsOverlap(withWall(cand), livingRect)) ||
+      overlapsPlaced(cand)
+    ) {
+      return true;
+    }
+    if (!strict) return false;
+    const avoid = separatedTypes(ADJACENCY_RULES, type);
+    return placed.some(
+      (p) =>
+        avoid.includes(p.type) &&
+        roomsShareWall(cand, p, wallThickness + WALL_GAP_EPS)
+    );
+  };
+
+  const insideUsable = (cand: { x: number; y: number; w: number; h: number }) =>
+    cand.x - cand.w / 2 >= -halfUsableW - 1e-6 &&
+    cand.x + cand.w / 2 <= halfUsableW + 1e-6 &&
+    cand.y - cand.h / 2 >= -halfUsableH - 1e-6 &&
+    cand.y + cand.h / 2 <= halfUsableH + 1e-6;
+
+  // Đặt sát một phòng mà luật adjacent yêu cầu kề (vd. WC cạnh phòng ngủ),
+  // cách một bề dày tường trong, thử bốn cạnh của phòng đó, canh theo hai
+  // đầu cạnh, cả hai chiều xoay
+  const tryPlaceAdjacent = (room: (typeof sized)[number], strict: boolean) => {
+    const partnerTypes = adjacentPartnerTypes(ADJACENCY_RULES, room.type);
+    const partners = placed.filter((p) => partnerTypes.includes(p.type));
+    for (const p of partners) {
+      for (const [w, h] of [
+        [room.w, room.h],
+        [room.h, room.w],
+      ]) {
+        const left = p.x - p.w / 2 + w / 2,
+          right = p.x + p.w / 2 - w / 2;
+        const bottom = p.y - p.h / 2 + h / 2,
+          top = p.y + p.h / 2 - h / 2;
+        const t = wallThickness;
+        const cands = [
+          { x: left, y: p.y + p.h / 2 + t + h / 2 }, // N
+          { x: right, y: p.y + p.h / 2 + t + h / 2 },
+          { x: left, y: p.y - p.h / 2 - t - h / 2 }, // S
+          { x: right, y: p.y - p.h / 2 - t - h / 2 },
+          { x: p.x + p.w / 2 + t + w / 2, y: bottom }, // E
+          { x: p.x + p.w / 2 + t + w / 2, y: top },
+          { x: p.x - p.w / 2 - t - w / 2, y: bottom }, // W
+          { x: p.x - p.w / 2 - t - w / 2, y: top },
+        ];
+        for (const c of cands) {
+          const cand = { x: c.x, y: c.y, w, h };
+          if (!insideUsable(cand) || clashes(cand, room.type, strict)) continue;
+          const roomConfig = getRoomConfig(room.type, presetsData);
+          placed.push({
+            id: room.id,
+            type: room.type,
+            x: cand.x,
+            y: cand.y,
+            w,
+            h,
+            color: roomConfig.color,
+            label: roomConfig.label,
+          });
+          return true;
+        }
+      }
+    }
+    return false;
+  };
 
   const tryPlaceCorner = (
     room: (typeof sized)[number],
-    corner: "NW" | "NE" | "SW" | "SE"
+    corner: "NW" | "NE" | "SW" | "SE",
+    strict: boolean
   ) => {
     let w = room.w,
       h = room.h;
     for (let k = 0; k < 25; k++) {
       const tgt = idealCornerCenterUsable(usableW, usableH, corner, w, h);
       const cand = { x: tgt.x, y: tgt.y, w, h };
-      const clash =
-        (livingRect && rectsOverlap(cand, livingRect)) || overlapsPlaced(cand);
-      if (!clash) {
+      if (!clashes(cand, room.type, strict)) {
         const roomConfig = getRoomConfig(room.type, presetsData);
         placed.push({
           id: room.id,
@@ -628,7 +1514,12 @@ const generateLayout = async (
         });
         return true;
       }
-      if (w > MIN_SIDE && h > MIN_SIDE) {
+      if (
+        w > MIN_SIDE &&
+        h > MIN_SIDE &&
+        !room.fixedSize &&
+        w * h * SHRINK_STEP ** 2 >= room.minArea
+      ) {
         w *= SHRINK_STEP;
         h *= SHRINK_STEP;
       } else {
@@ -638,7 +1529,55 @@ const generateLayout = async (
     return false;
   };
 
-  const tryPlaceAlongWall = (room: (typeof sized)[number]) => {
+  // Đặt sát cạnh `edge` của sàn: trượt dọc cạnh từ giữa ra hai đầu, cả hai
+  // chiều xoay
+  const tryPlaceOnEdge = (
+    room: (typeof sized)[number],
+    edge: Edge,
+    strict: boolean
+  ) => {
+    const horizontal = edge === "N" || edge === "S";
+    for (const [w, h] of [
+      [room.w, room.h],
+      [room.h, room.w],
+    ]) {
+      const span = (horizontal ? usableW - w : usableH - h) / 2;
+      if (span < -1e-6) continue;
+      const across = {
+        N: halfUsableH - h / 2,
+        S: -halfUsableH + h / 2,
+        E: halfUsableW - w / 2,
+        W: -halfUsableW + w / 2,
+      }[edge];
+      const offsets = [0];
+      for (let d = 0.5; d < span; d += 0.5) offsets.push(d, -d);
+      if (span > 1e-6) offsets.push(span, -span);
+      for (const off of offsets) {
+        const cand = horizontal
+          ? { x: off, y: across, w, h }
+          : { x: across, y: off, w, h };
+        if (clashes(cand, room.type, strict)) continue;
+        const roomConfig = getRoomConfig(room.type, presetsData);
+        placed.push({
+          id: room.id,
+          type: room.type,
+          x: cand.x,
+          y: cand.y,
+          w,
+          h,
+          color: roomConfig.color,
+          label: roomConfig.label,
+        });
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const tryPlaceAlongWall = (
+    room: (typeof sized)[number],
+    strict: boolean
+  ) => {
     const cands = [
       { x: -halfUsableW + room.w / 2, y: 0 }, // W
       { x: halfUsableW - room.w / 2, y: 0 }, // E
@@ -647,9 +1586,7 @@ const generateLayout = async (
     ];
     for (const c of cands) {
       const cand = { x: c.x, y: c.y, w: room.w, h: room.h };
-      const clash =
-        (livingRect && rectsOverlap(cand, livingRect)) || overlapsPlaced(cand);
-      if (!clash) {
+      if (!clashes(cand, room.type, strict)) {
         const roomConfig = getRoomConfig(room.type, presetsData);
         placed.push({
           id: room.id,
@@ -667,7 +1604,11 @@ const generateLayout = async (
     return false;
   };
 
-  const tryPlaceOnGrid = (room: (typeof sized)[number], step = 1.0) => {
+  const tryPlaceOnGrid = (
+    room: (typeof sized)[number],
+    strict: boolean,
+    step = 1.0
+  ) => {
     for (
       let y = -halfUsableH + room.h / 2;
       y <= halfUsableH - room.h / 2;
@@ -679,10 +1620,7 @@ const generateLayout = async (
         x += step
       ) {
         const cand = { x, y, w: room.w, h: room.h };
-        const clash =
-          (livingRect && rectsOverlap(cand, livingRect)) ||
-          overlapsPlaced(cand);
-        if (!clash) {
+        if (!clashes(cand, room.type, strict)) {
           const roomConfig = getRoomConfig(room.type, presetsData);
           placed.push({
             id: room.id,
@@ -701,12 +1639,16 @@ const generateLayout = async (
     return false;
   };
 
-  const prio = (t: RoomType) =>
-    t === "bed" ? 0 : t === "kitchen" ? 1 : t === "wc" ? 2 : 3;
-  const others = livingBase
-    ? sized.filter((r) => r.id !== livingBase.id)
+  // Thứ tự xếp theo priority của loại phòng trong room_preset.json
+  const prio = (t: RoomType) => getRoomConfig(t, presetsData).priority;
+  const others = livingRect
+    ? sized.filter((r) => r.id !== livingRect.id)
     : sized;
-  const othersSorted = [...others].sort((a, b) => prio(a.type) - prio(b.type));
+  // Phòng có ràng buộc cạnh/góc xếp trước để giữ được chỗ đã chọn
+  const othersSorted = [...others].sort(
+    (a, b) =>
+      Number(!a.attach) - Number(!b.attach) || prio(a.type) - prio(b.type)
+  );
 
   const cornerOrderByDoor: Record<Edge, ("NW" | "NE" | "SW" | "SE")[]> = {
     S: ["NW", "NE", "SW", "SE"],
@@ -714,21 +1656,135 @@ const generateLayout = async (
     E: ["NW", "SW", "NE", "SE"],
     W: ["NE", "SE", "NW", "SW"],
   };
-  const cornerOrder = cornerOrderByDoor[mainDoor.edge];
+  const cornerOrder = cornerOrderByDoor[doorSide];
 
-  for (const r of othersSorted) {
-    let ok = false;
+  const placeRoom = (r: (typeof sized)[number], strict: boolean) => {
+    // Phòng nên giáp tường ngoài thử các góc và dọc tường trước
+    if (getRoomConfig(r.type, presetsData).exteriorWall) {
+      for (const corner of cornerOrder) {
+        if (tryPlaceCorner(r, corner, strict)) return true;
+      }
+      if (tryPlaceAlongWall(r, strict)) return true;
+    }
+    if (tryPlaceAdjacent(r, strict)) return true;
     for (const corner of cornerOrder) {
-      if (tryPlaceCorner(r, corner)) {
-        ok = true;
-        break;
+      if (tryPlaceCorner(r, corner, strict)) return true;
+    }
+    return tryPlaceAlongWall(r, strict) || tryPlaceOnGrid(r, strict, 1.0);
+  };
+
+  const attachedIds = new Set<string>();
+  const placeAttached = (r: (typeof sized)[number], strict: boolean) => {
+    if (!r.attach) return false;
+    const ok = isCorner(r.attach)
+      ? tryPlaceCorner(r, r.attach, strict)
+      : tryPlaceOnEdge(r, r.attach, strict);
+    if (ok) attachedIds.add(r.id);
+    return ok;
+  };
+
+  const unplaced: typeof sized = [];
+  for (const r of othersSorted) {
+    // Không còn chỗ thoả luật tách thì đặt bất kỳ, vi phạm sẽ được cảnh báo;
+    // phòng có ràng buộc cạnh/góc chỉ xếp tự do khi không đặt được ở đó
+    const ok =
+      placeAttached(r, true) ||
+      placeAttached(r, false) ||
+      placeRoom(r, true) ||
+      placeRoom(r, false);
+    if (!ok) unplaced.push(r);
+  }
+  for (const r of sized) {
+    if (r.attach && !attachedIds.has(r.id) && !unplaced.includes(r)) {
+      warnings.push(
+        `⚠️ ${r.label}: không đặt được ${ATTACH_LABELS[r.attach]} — đã xếp tự do`
+      );
+    }
+  }
+
+  // Bộ giải tối ưu: bắt đầu từ kết quả tham lam, đưa cả các phòng chưa đặt
+  // được vào và để mô phỏng luyện kim dàn xếp lại
+  if ((input.solver ?? "greedy") === "anneal" && sized.length) {
+    // Không co phòng dưới diện tích tối thiểu người dùng nhập hay của loại
+    // phòng (phòng vốn đã nhỏ hơn thì giữ nguyên diện tích)
+    const minArea: Record<string, number> = {};
+    for (const r of sized) {
+      minArea[r.id] = r.minArea || getRoomConfig(r.type, presetsData).minArea;
+    }
+    const annealed = await annealLayout(
+      [
+        ...placed,
+        ...unplaced.map((r) => ({
+          id: r.id,
+          type: r.type,
+          x: 0,
+          y: 0,
+          w: r.w,
+          h: r.h,
+          color: r.color,
+          label: r.label,
+        })),
+      ],
+      {
+        usableW,
+        usableH,
+        voidRatio: VOID_RATIO,
+        mainDoor: mdLine,
+        exteriorThickness: exteriorWallThickness,
+        wallThickness,
+        adjacencyRules: ADJACENCY_RULES,
+        outline: usableOutline,
+        entryRoomId,
+        passageTypes: PASSAGE,
+      },
+      {
+        fixedIds: [
+          livingRect?.id,
+          stair?.id,
+          ...pinnedIds,
+          ...attachedIds,
+        ].filter((id): id is string => Boolean(id)),
+        minArea,
+        rng,
+        fixedSizeIds: sized.filter((r) => r.fixedSize).map((r) => r.id),
       }
+    );
+    // Bộ giải không tìm được cách xếp hợp lệ thì giữ kết quả tham lam (các
+    // phòng chưa đặt được bị bỏ qua và cảnh báo như chế độ thường)
+    const clear =
+      !overlappingPairs(annealed).length &&
+      (!usableOutline ||
+        annealed.every((p) => rectInsidePolygon(p, usableOutline)));
+    if (clear) {
+      placed = annealed;
+      unplaced.length = 0;
+    } else {
+      warnings.push(
+        `⚠️ Bộ giải tối ưu không tìm được cách xếp không chồng lấn — dùng kết quả xếp thường${unplaced.length ? `, bỏ ${unplaced.length} phòng` : ""}`
+      );
     }
-    if (!ok) ok = tryPlaceAlongWall(r);
-    if (!ok) ok = tryPlaceOnGrid(r, 1.0);
-    if (!ok) {
-      const roomConfig = getRoomConfig(r.type, presetsData);
-      warnings.push(`${roomConfig.label}: không thể đặt — bỏ qua.`);
+  }
+
+  for (const r of unplaced) {
+    warnings.push(`${r.label}: không thể đặt — bỏ qua.`);
+  }
+  // Phòng đã đặt nhưng nhỏ hơn diện tích người dùng yêu cầu (tối thiểu, hoặc
+  // thiếu quá 10% so với diện tích mục tiêu), hay dưới mức tối thiểu của
+  // loại phòng (sàn chật nên phần chia hoặc bộ giải làm phòng nhỏ lại)
+  for (const p of placed) {
+    const req = requests[expanded.findIndex((r) => r.id === p.id)];
+    if (!req || req.fixed) continue;
+    const wanted = req.ranged ? req.min : req.area;
+    const tolerance = req.ranged ? 0 : 0.1;
+    const typeMin = getRoomConfig(p.type, presetsData).minArea;
+    if (wanted !== undefined && p.w * p.h < wanted * (1 - tolerance) - 0.05) {
+      warnings.push(
+        `⚠️ ${p.label}: chỉ đạt ${(p.w * p.h).toFixed(1)}m², nhỏ hơn ${wanted.toFixed(1)}m² yêu cầu`
+      );
+    } else if (p.w * p.h < typeMin - 0.05) {
+      warnings.push(
+        `⚠️ ${p.label}: chỉ đạt ${(p.w * p.h).toFixed(1)}m², dưới mức tối thiểu ${typeMin}m² của loại phòng`
+      );
     }
   }
 
@@ -750,11 +1806,283 @@ const generateLayout = async (
     warnings.push(`⚠️ Diện tích khả dụng có thể không đủ cho tất cả phòng`);
   }
 
-  return {
-    floor: { width: floorW, height: floorH, mainDoor: mdLine },
+  return finalizeLayout(input, {
+    floor: {
+      width: floorW,
+      height: floorH,
+      mainDoor: mdLine,
+      ...(outline && { outline }),
+    },
     rooms: placed,
     warnings,
     validation, // Include validation result
+    ...(entryRoomId && { entryRoomId }),
+  });
+};
+
+// ✅ Main generateLayout function - BỎ early return khi validation fail
+const generateLayout = async (
+  input: FloorInput,
+  skipValidation: boolean = false
+): Promise<LayoutResult> => {
+  // Load presets data (cập nhật VOID_RATIO trước khi validate)
+  await loadRoomPresets();
+  const seed = input.seed ?? randomSeed();
+
+  // Nhà nhiều tầng: mỗi tầng một bố cục theo bộ giải đã chọn (tầng 1 vẫn
+  // thử mẫu trước)
+  if (input.upperStoreys?.length) {
+    const rng = createRng(seed);
+    const { levels, results } = await solveStoreys(
+      input,
+      skipValidation,
+      async (levelInput, validation, entryRoomId) => {
+        if (!entryRoomId) {
+          const [fromTemplate] = await templateLayouts(levelInput);
+          if (fromTemplate) {
+            return finalizeLayout(levelInput, { ...fromTemplate, validation });
+          }
+        }
+        return solveLayout(levelInput, validation, rng, entryRoomId);
+      }
+    );
+    return { ...combineStoreys(levels, results), seed };
+  }
+
+  const validation = skipValidation
+    ? undefined
+    : await computeValidation(input);
+
+  // Try template layout first
+  const [fromTemplate] = await templateLayouts(input);
+  if (fromTemplate) {
+    return {
+      ...finalizeLayout(input, { ...fromTemplate, validation }),
+      seed,
+    };
+  }
+
+  return { ...(await solveLayout(input, validation, createRng(seed))), seed };
+};
+
+// Khoá so sánh hình học để bỏ các phương án trùng nhau
+const layoutKey = (layout: LayoutResult) =>
+  [...layout.rooms]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((r) => [r.x, r.y, r.w, r.h].map((v) => v.toFixed(1)).join(","))
+    .join("|");
+
+// Sinh nhiều phương án bố cục (mẫu, tham lam và các lần chạy tối ưu khác
+// nhau), bỏ trùng và xếp hạng theo điểm giảm dần
+// Nhà nhiều tầng: mỗi tầng xếp riêng (lần lượt từ tầng 1) quanh cùng một
+// cầu thang; tầng trên đi vào từ cầu thang
+const solveStoreys = async <T>(
+  input: FloorInput,
+  skipValidation: boolean,
+  solveLevel: (
+    levelInput: FloorInput,
+    validation: RoomValidationResult | undefined,
+    entryRoomId?: string
+  ) => Promise<T>
+): Promise<{ levels: StoreyInput[]; results: T[] }> => {
+  const stair = stairInputOf(input);
+  const levels = storeyLevels(input);
+  const results: T[] = [];
+  for (const [i, level] of levels.entries()) {
+    const levelInput = {
+      ...input,
+      rooms: level.rooms,
+      stair,
+      upperStoreys: undefined,
+    };
+    const validation = skipValidation
+      ? undefined
+      : await computeValidation(levelInput);
+    results.push(
+      await solveLevel(levelInput, validation, i > 0 ? STAIR_ID : undefined)
+    );
+  }
+  return { levels, results };
+};
+
+export const generateLayoutAlternatives = async (
+  input: FloorInput,
+  count: number = 4,
+  skipValidation: boolean = false
+): Promise<LayoutResult[]> => {
+  await loadRoomPresets();
+
+  // Các lần chạy tối ưu dùng chung một dãy số từ seed nên cả danh sách
+  // phương án lặp lại được
+  const seed = input.seed ?? randomSeed();
+  const rng = createRng(seed);
+
+  if (!input.upperStoreys?.length) {
+    const validation = skipValidation
+      ? undefined
+      : await computeValidation(input);
+    return (await floorAlternatives(input, count, validation, rng)).map(
+      (layout) => ({ ...layout, seed })
+    );
+  }
+
+  // Phương án thứ k ghép phương án thứ k của mỗi tầng
+  const { levels, results: perLevel } = await solveStoreys(
+    input,
+    skipValidation,
+    (levelInput, validation, entryRoomId) =>
+      floorAlternatives(levelInput, count, validation, rng, entryRoomId)
+  );
+  const total = Math.max(...perLevel.map((list) => list.length));
+  return Array.from({ length: Math.min(total, Math.max(1, count)) }, (_, k) =>
+    combineStoreys(
+      levels,
+      perLevel.map((list) => list[Math.min(k, list.length - 1)])
+    )
+  ).map((layout) => ({ ...layout, seed }));
+};
+
+// Các phương án của một tầng (mẫu, tham lam và các lần chạy tối ưu), đã bỏ
+// trùng và xếp hạng theo điểm giảm dần
+const floorAlternatives = async (
+  input: FloorInput,
+  count: number,
+  validation: RoomValidationResult | undefined,
+  rng: () => number,
+  entryRoomId?: string
+): Promise<LayoutResult[]> => {
+  const candidates: LayoutResult[] = [];
+  if (!entryRoomId) {
+    for (const layout of await templateLayouts(input)) {
+      candidates.push(finalizeLayout(input, { ...layout, validation }));
+    }
+  }
+  candidates.push(
+    await solveLayout(
+      { ...input, solver: "greedy" },
+      validation,
+      rng,
+      entryRoomId
+    )
+  );
+  for (let k = 0; k < count; k++) {
+    candidates.push(
+      await solveLayout(
+        { ...input, solver: "anneal" },
+        validation,
+        rng,
+        entryRoomId
+      )
+    );
+  }
+
+  const seen = new Set<string>();
+  return candidates
+    .filter((layout) => {
+      const key = layoutKey(layout);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => (b.score?.total ?? 0) - (a.score?.total ?? 0))
+    .slice(0, Math.max(1, count));
+};
+
+// Ghép các tầng thành một bố cục toà nhà: các trường phẳng là của tầng 1,
+// cảnh báo ghi kèm tên tầng, điểm là trung bình các tầng
+const combineStoreys = (
+  levels: StoreyInput[],
+  layouts: LayoutResult[]
+): LayoutResult => {
+  const storeys: StoreyLayout[] = layouts.map((layout, i) => ({
+    id: levels[i].id,
+    name: levels[i].name,
+    rooms: layout.rooms,
+    corridors: layout.corridors,
+    walls: layout.walls,
+    warnings: layout.warnings,
+    score: layout.score,
+    ...(layout.entryRoomId && { entryRoomId: layout.entryRoomId }),
+  }));
+  const scores = layouts.flatMap((layout) =>
+    layout.score ? [layout.score] : []
+  );
+  const validation = layouts
+    .map((layout) => layout.validation)
+    .reduce<RoomValidationResult | undefined>(
+      (worst, v) => (!worst || (v && v.shortage > worst.shortage) ? v : worst),
+      undefined
+    );
+  return {
+    ...layouts[0],
+    warnings: storeys.flatMap((storey) =>
+      storey.warnings.map((w) => `${storey.name}: ${w}`)
+    ),
+    validation,
+    score: scores.length ? combineScores(scores) : undefined,
+    storeys,
+  };
+};
+
+// Xem một tầng của bố cục như một bố cục một tầng (tầng 1 khi không có tầng)
+export const storeyView = (
+  layout: LayoutResult,
+  index: number
+): LayoutResult => {
+  const storey = layout.storeys?.[index];
+  if (!storey) return layout;
+  return {
+    ...layout,
+    rooms: storey.rooms,
+    corridors: storey.corridors,
+    walls: storey.walls,
+    warnings: storey.warnings,
+    score: storey.score,
+    entryRoomId: storey.entryRoomId,
+  };
+};
+
+// Cập nhật phòng của một tầng (sau khi kéo/sửa), dựng lại tường của tầng đó
+export const updateStoreyRooms = (
+  layout: LayoutResult,
+  index: number,
+  rooms: PlacedRoom[],
+  wallOptions: WallGraphOptions
+): LayoutResult => {
+  const view = storeyView(layout, index);
+  const walls = layoutWallGraph(view, rooms, wallOptions);
+  if (!layout.storeys) return { ...layout, rooms, walls };
+  const storeys = layout.storeys.map((storey, i) =>
+    i === index ? { ...storey, rooms, walls } : storey
+  );
+  return index === 0
+    ? { ...layout, rooms, walls, storeys }
+    : { ...layout, storeys };
+};
+
+// Gắn vị trí các phòng đã khoá của bố cục vào dữ liệu nhập (khớp theo tầng,
+// id và loại phòng) để lần tạo sau giữ nguyên chúng
+export const withLockedRooms = (
+  input: FloorInput,
+  layout: LayoutResult
+): FloorInput => {
+  const levels = layout.storeys ?? [{ rooms: layout.rooms }];
+  const pin = (rooms: RoomInput[], placed: PlacedRoom[] = []) =>
+    rooms.map((r) => {
+      const p = placed.find(
+        (q) => q.locked && q.id === r.id && q.type === r.type
+      );
+      return { ...r, pin: p && { x: p.x, y: p.y, w: p.w, h: p.h } };
+    });
+  return {
+    ...input,
+    rooms: pin(input.rooms, levels[0]?.rooms),
+    ...(input.upperStoreys && {
+      upperStoreys: input.upperStoreys.map((storey, i) => ({
+        ...storey,
+        rooms: pin(storey.rooms, levels[i + 1]?.rooms),
+      })),
+    }),
   };
 };
 
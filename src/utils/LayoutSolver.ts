@@ -0,0 +1,390 @@
+import type { PlacedDoor, PlacedRoom } from "./GenerateLayout";
+import { reachableRoomIds } from "./DoorSynthesis";
+import { rectBounds, type Rect } from "./RoomGeometry";
+import { polygonArea, rectOutsideArea, type Point } from "./FloorOutline";
+import {
+  DEFAULT_ADJACENCY_RULES,
+  evaluateAdjacency,
+  type AdjacencyRule,
+} from "./AdjacencyRules";
+
+export interface LayoutScore {
+  total: number; // 0..100
+  coverage: number; // 0..1 — diện tích phòng so với diện tích dành cho phòng
+  adjacency: number; // 0..1 — tỉ lệ luật kề được thoả
+  aspect: number; // 0..1 — phòng không quá dài/hẹp
+  reachability: number; // 0..1 — tỉ lệ phòng đi tới được từ cửa chính
+  overlap: number; // m² chồng lấn giữa các phòng (tính cả tường trong) và lấn ra ngoài sàn
+}
+
+export interface ScoreContext {
+  usableW: number;
+  usableH: number;
+  voidRatio: number;
+  mainDoor: PlacedDoor;
+  exteriorThickness: number;
+  // Bề dày tường trong: hai phòng kề nhau cách nhau đúng khoảng này, gần
+  // hơn thì tính là chồng lấn (mặc định 0 — phòng sát nhau)
+  wallThickness?: number;
+  adjacencyRules?: AdjacencyRule[];
+  // Hành lang đã đặt (nếu có) — tính vào khả năng đi tới các phòng
+  corridors?: Array<Rect & { id: string }>;
+  // Vùng khả dụng của sàn đa giác (đã trừ tường ngoài), phần phòng nằm
+  // ngoài tính như chồng lấn
+  outline?: Point[];
+  // Tầng trên: lối vào là phòng này (cầu thang) thay cho cửa chính
+  entryRoomId?: string;
+  // Các loại phòng đi xuyên qua được (mặc định PASSAGE_TYPES)
+  passageTypes?: ReadonlySet<string>;
+}
+
+export interface AnnealOptions {
+  // Số bước ủ; mặc định tăng theo số phòng được xếp lại
+  iterations?: number;
+  // Nguồn số ngẫu nhiên — truyền createRng(seed) để kết quả lặp lại được
+  rng?: () => number;
+  // Phòng giữ nguyên vị trí (vd. phòng khách đặt ở cửa chính)
+  fixedIds?: string[];
+  // Diện tích tối thiểu được phép co lại, theo id phòng
+  minArea?: Record<string, number>;
+  // Phòng giữ nguyên kích thước người dùng nhập (chỉ được dịch và xoay)
+  fixedSizeIds?: string[];
+}
+
+const WEIGHTS = {
+  coverage: 0.3,
+  adjacency: 0.2,
+  aspect: 0.15,
+  reachability: 0.35,
+};
+const OVERLAP_PENALTY = 10; // điểm trừ cho mỗi m² chồng lấn
+const MAX_ASPECT = 2;
+const GRID = 0.05;
+const WALL_GAP_EPS = 0.05;
+
+// Trọng số năng lượng khi ủ: chồng lấn và co phòng bị phạt nặng hơn điểm
+const ENERGY_OVERLAP = 40;
+const ENERGY_SHRINK = 20;
+// Số bước ủ mặc định cho mỗi phòng được xếp lại, và trần của tổng số bước
+const ITERATIONS_PER_ROOM = 500;
+const MAX_ITERATIONS = 6000;
+// Cứ sau ngần này bước thì nhường luồng để trang không bị treo
+const YIELD_EVERY = 250;
+// Diện tích chồng lấn (m²) coi như bằng 0 khi chọn trạng thái không chồng lấn
+const CLEAR_OVERLAP = 1e-3;
+
+const overlapArea = (a: Rect, b: Rect) => {
+  const A = rectBounds(a),
+    B = rectBounds(b);
+  const dx = Math.min(A.right, B.right) - Math.max(A.left, B.left);
+  const dy = Math.min(A.top, B.top) - Math.max(A.bottom, B.bottom);
+  return dx > 0 && dy > 0 ? dx * dy : 0;
+};
+
+const evaluate = (rooms: PlacedRoom[], ctx: ScoreContext) => {
+  const usableArea = ctx.outline
+    ? polygonArea(ctx.outline)
+    : ctx.usableW * ctx.usableH;
+  const target = usableArea * (1 - ctx.voidRatio);
+  const covered = rooms.reduce((s, r) => s + r.w * r.h, 0);
+  const coverage = target > 0 ? Math.min(1, covered / target) : 0;
+
+  // Mỗi phòng nới ra nửa bề dày tường để phần tường chung cũng được tính
+  const t = ctx.wallThickness ?? 0;
+  const maxGap = t + WALL_GAP_EPS;
+  const walled = rooms.map((r) => ({ ...r, w: r.w + t, h: r.h + t }));
+  let overlap = 0;
+  for (let i = 0; i < walled.length; i++) {
+    for (let j = i + 1; j < walled.length; j++) {
+      overlap += overlapArea(walled[i], walled[j]);
+    }
+  }
+  if (ctx.outline) {
+    for (const r of rooms) overlap += rectOutsideArea(r, ctx.outline);
+  }
+
+  const rules = ctx.adjacencyRules ?? DEFAULT_ADJACENCY_RULES;
+  const { checked, violations } = evaluateAdjacency(rooms, rules, maxGap);
+  const adjacency = checked ? 1 - violations.length / checked : 1;
+
+  const aspect =
+    rooms.reduce((s, r) => {
+      const ratio = Math.max(r.w, r.h) / Math.max(1e-6, Math.min(r.w, r.h));
+      return (
+        s +
+        (ratio <= MAX_ASPECT ? 1 : Math.max(0, 1 - (ratio - MAX_ASPECT) / 2))
+      );
+    }, 0) / rooms.length;
+
+  const reached = reachableRoomIds(rooms, ctx.mainDoor, {
+    exteriorThickness: ctx.exteriorThickness,
+    maxGap,
+    adjacencyRules: rules,
+    corridors: ctx.corridors,
+    entryRoomId: ctx.entryRoomId,
+    passageTypes: ctx.passageTypes,
+  });
+  const reachability =
+    rooms.filter((r) => reached.has(r.id)).length / rooms.length;
+
+  const weighted =
+    100 *
+    (WEIGHTS.coverage * coverage +
+      WEIGHTS.adjacency * adjacency +
+      WEIGHTS.aspect * aspect +
+      WEIGHTS.reachability * reachability);
+
+  return { weighted, coverage, adjacency, aspect, reachability, overlap };
+};
+
+// Chấm điểm bố cục theo độ phủ, luật kề, tỉ lệ cạnh và khả năng đi tới
+export const scoreLayout = (
+  rooms: PlacedRoom[],
+  ctx: ScoreContext
+): LayoutScore => {
+  if (!rooms.length) {
+    return {
+      total: 0,
+      coverage: 0,
+      adjacency: 1,
+      aspect: 1,
+      reachability: 0,
+      overlap: 0,
+    };
+  }
+  const { weighted, ...parts } = evaluate(rooms, ctx);
+  return {
+    total: Math.max(0, weighted - OVERLAP_PENALTY * parts.overlap),
+    ...parts,
+  };
+};
+
+// Điểm của cả toà nhà từ điểm từng tầng: trung bình các thành phần, riêng
+// diện tích chồng lấn cộng dồn
+export const combineScores = (scores: LayoutScore[]): LayoutScore => {
+  const mean = (key: keyof LayoutScore) =>
+    scores.reduce((s, score) => s + score[key], 0) / Math.max(1, scores.length);
+  return {
+    total: mean("total"),
+    coverage: mean("coverage"),
+    adjacency: mean("adjacency"),
+    aspect: mean("aspect"),
+    reachability: mean("reachability"),
+    overlap: scores.reduce((s, score) => s + score.overlap, 0),
+  };
+};
+
+// Các cặp phòng còn chồng lên nhau sau khi xếp
+export const overlappingPairs = (rooms: PlacedRoom[], minArea = 0.01) => {
+  const pairs: Array<[PlacedRoom, PlacedRoom]> = [];
+  for (let i = 0; i < rooms.length; i++) {
+    for (let j = i + 1; j < rooms.length; j++) {
+      if (overlapArea(rooms[i], rooms[j]) > minArea) {
+        pairs.push([rooms[i], rooms[j]]);
+      }
+    }
+  }
+  return pairs;
+};
+
+// Xếp phòng bằng mô phỏng luyện kim (simulated annealing) trên các hình chữ
+// nhật phòng. Trạng thái ban đầu là kết quả của bước xếp tham lam; các phòng
+// chưa đặt được đưa vào giữa sàn và được đẩy dần ra chỗ trống. Phòng có thể
+// co lại tới minArea thay vì bị bỏ. Kết quả là trạng thái tốt nhất không
+// chồng lấn (kể cả khe tường trong và phần ra ngoài đường bao); chưa gặp
+// trạng thái nào như vậy thì trả trạng thái năng lượng thấp nhất. Chạy từng
+// đoạn, nhường luồng giữa các đoạn để giao diện vẫn phản hồi khi xếp nhiều
+// tầng / nhiều phương án.
+export const annealLayout = async (
+  rooms: PlacedRoom[],
+  ctx: ScoreContext,
+  {
+    iterations,
+    rng = Math.random,
+    fixedIds = [],
+    minArea = {},
+    fixedSizeIds = [],
+  }: AnnealOptions = {}
+): Promise<PlacedRoom[]> => {
+  const fixed = new Set(fixedIds);
+  const fixedSize = new Set(fixedSizeIds);
+  const movable = rooms
+    .map((r, i) => (fixed.has(r.id) ? -1 : i))
+    .filter((i) => i >= 0);
+  if (!movable.length) return rooms;
+  const steps =
+    iterations ??
+    Math.min(MAX_ITERATIONS, ITERATIONS_PER_ROOM * movable.length);
+
+  const halfW = ctx.usableW / 2,
+    halfH = ctx.usableH / 2;
+  const gap = ctx.wallThickness ?? 0;
+  const targetArea = new Map(rooms.map((r) => [r.id, r.w * r.h]));
+  // Diện tích nhỏ nhất được co tới (không vượt diện tích mục tiêu)
+  const lowerArea = new Map(
+    rooms.map((r) => [
+      r.id,
+      Math.min(r.w * r.h, minArea[r.id] ?? r.w * r.h * 0.75),
+    ])
+  );
+  // Diện tích nhắm tới: phòng được chia nhỏ hơn minArea thì nhắm tới minArea
+  const goalArea = new Map(
+    rooms.map((r) => [r.id, Math.max(r.w * r.h, minArea[r.id] ?? 0)])
+  );
+  // Phòng bị co dưới mức cho phép (kể cả do bị cắt cho vừa sàn) so với
+  // trạng thái trước
+  const shrunkTooFar = (next: PlacedRoom[], prev: PlacedRoom[]) =>
+    next.some(
+      (r, k) =>
+        r !== prev[k] &&
+        r.w * r.h <
+          Math.min(lowerArea.get(r.id) ?? 0, prev[k].w * prev[k].h) - 1e-6
+    );
+
+  const clamp = (r: PlacedRoom): PlacedRoom => {
+    const w = Math.min(r.w, ctx.usableW);
+    const h = Math.min(r.h, ctx.usableH);
+    return {
+      ...r,
+      w,
+      h,
+      x: Math.max(-halfW + w / 2, Math.min(halfW - w / 2, r.x)),
+      y: Math.max(-halfH + h / 2, Math.min(halfH - h / 2, r.y)),
+    };
+  };
+  const snap = (v: number) => Math.round(v / GRID) * GRID;
+  const pick = <T>(items: T[]) => items[Math.floor(rng() * items.length)];
+
+  const energy = (state: PlacedRoom[]) => {
+    const e = evaluate(state, ctx);
+    const shrink = state.reduce((s, r) => {
+      const goal = goalArea.get(r.id) ?? r.w * r.h;
+      return s + Math.max(0, 1 - (r.w * r.h) / goal);
+    }, 0);
+    return {
+      value: -e.weighted + ENERGY_OVERLAP * e.overlap + ENERGY_SHRINK * shrink,
+      clear: e.overlap <= CLEAR_OVERLAP,
+    };
+  };
+
+  const propose = (state: PlacedRoom[], heat: number): PlacedRoom[] => {
+    const i = pick(movable);
+    const room = state[i];
+    const next = state.slice();
+    const move = rng();
+
+    if (move < 0.3) {
+      // Dịch chuyển ngẫu nhiên, bước giảm dần theo nhiệt độ
+      const step = Math.max(0.1, heat * Math.max(halfW, halfH));
+      next[i] = clamp({
+        ...room,
+        x: snap(room.x + (rng() * 2 - 1) * step),
+        y: snap(room.y + (rng() * 2 - 1) * step),
+      });
+    } else if (move < 0.55) {
+      // Áp sát một phòng khác, chừa một bề dày tường trong
+      const other = state[pick(state.map((_, k) => k).filter((k) => k !== i))];
+      if (!other) return state;
+      const side = pick(["N", "E", "S", "W"]);
+      const align = rng();
+      const o = rectBounds(other);
+      let { x, y } = room;
+      if (side === "N" || side === "S") {
+        y =
+          side === "N" ? o.top + gap + room.h / 2 : o.bottom - gap - room.h / 2;
+        x =
+          align < 0.33
+            ? o.left + room.w / 2
+            : align < 0.66
+              ? o.right - room.w / 2
+              : other.x;
+      } else {
+        x =
+          side === "E" ? o.right + gap + room.w / 2 : o.left - gap - room.w / 2;
+        y =
+          align < 0.33
+            ? o.bottom + room.h / 2
+            : align < 0.66
+              ? o.top - room.h / 2
+              : other.y;
+      }
+      next[i] = clamp({ ...room, x, y });
+    } else if (move < 0.65) {
+      // Áp sát tường ngoài
+      const side = pick(["N", "E", "S", "W"]);
+      next[i] = clamp({
+        ...room,
+        x:
+          side === "E"
+            ? halfW - room.w / 2
+            : side === "W"
+              ? -halfW + room.w / 2
+              : room.x,
+        y:
+          side === "N"
+            ? halfH - room.h / 2
+            : side === "S"
+              ? -halfH + room.h / 2
+              : room.y,
+      });
+    } else if (move < 0.75) {
+      // Xoay 90°
+      next[i] = clamp({ ...room, w: room.h, h: room.w });
+    } else if (move < 0.9) {
+      // Đổi tỉ lệ cạnh / co giãn trong khoảng [minArea, diện tích nhắm tới]
+      if (fixedSize.has(room.id)) return state;
+      const target = targetArea.get(room.id) ?? room.w * room.h;
+      const lower = lowerArea.get(room.id) ?? target;
+      const upper = goalArea.get(room.id) ?? target;
+      const area = Math.max(
+        lower,
+        Math.min(upper, room.w * room.h * (1 + (rng() * 2 - 1) * 0.1))
+      );
+      const w = snap(Math.max(1, room.w * (1 + (rng() * 2 - 1) * 0.15)));
+      next[i] = clamp({ ...room, w, h: Math.max(1, area / w) });
+    } else {
+      // Hoán đổi vị trí hai phòng
+      const j = pick(movable);
+      if (j === i) return state;
+      next[i] = clamp({ ...room, x: state[j].x, y: state[j].y });
+      next[j] = clamp({ ...state[j], x: room.x, y: room.y });
+    }
+    return next;
+  };
+
+  let current = rooms.map(clamp);
+  const start = energy(current);
+  let currentE = start.value;
+  let best = current;
+  let bestE = currentE;
+  let bestClear = start.clear ? current : null;
+  let bestClearE = start.clear ? currentE : Infinity;
+
+  const T0 = 10,
+    T1 = 0.05;
+  for (let k = 0; k < steps; k++) {
+    if (k > 0 && k % YIELD_EVERY === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    const heat = k / steps;
+    const T = T0 * Math.pow(T1 / T0, heat);
+    const next = propose(current, 1 - heat);
+    if (next === current || shrunkTooFar(next, current)) continue;
+
+    const { value: e, clear } = energy(next);
+    if (clear && e < bestClearE) {
+      bestClear = next;
+      bestClearE = e;
+    }
+    if (e < currentE || rng() < Math.exp((currentE - e) / T)) {
+      current = next;
+      currentE = e;
+      if (e < bestE) {
+        best = next;
+        bestE = e;
+      }
+    }
+  }
+
+  return bestClear ?? best;
+};
@@ -0,0 +1,242 @@
+import type { Edge, FloorInput, RoomType } from "@/components/FloorForm";
+import axios from "axios";
+import { rectsOverlap } from "./RoomGeometry";
+import {
+  ORIENTATIONS,
+  transformFloorInput,
+  type Transform,
+} from "./LayoutTransform";
+
+type Range = { min: number; max: number };
+type Corner = "NW" | "NE" | "SW" | "SE";
+
+// Toạ độ tương đối: tỉ lệ 0..1 của vùng khả dụng, gốc ở góc SW (x sang phải, y lên trên)
+interface RelativeTemplateRoom {
+  type: RoomType;
+  rect: { x: number; y: number; w: number; h: number };
+}
+
+// Toạ độ neo: kích thước cố định (m), đặt cách góc neo một khoảng offset (m)
+interface AnchoredTemplateRoom {
+  type: RoomType;
+  anchor: Corner;
+  offset?: { x: number; y: number };
+  size: { w: number; h: number };
+}
+
+export type TemplateRoom = RelativeTemplateRoom | AnchoredTemplateRoom;
+
+export interface LayoutTemplate {
+  id: string;
+  name: string;
+  floor: { width: Range; height: Range };
+  doorEdge: Edge;
+  // Vị trí tâm cửa chính dọc theo cạnh (tỉ lệ 0..1) mà mẫu được thiết kế cho
+  doorRange?: Range;
+  // Chữ ký chương trình phòng: số phòng theo từng loại
+  rooms: Record<string, number>;
+  layout: TemplateRoom[];
+}
+
+interface LayoutTemplatesData {
+  version: string;
+  templates: LayoutTemplate[];
+}
+
+export interface TemplateMatch {
+  template: LayoutTemplate;
+  // Phép biến đổi đưa dữ liệu nhập về hướng gốc của mẫu
+  transform: Transform;
+  // Dữ liệu nhập đã biến đổi sang hướng của mẫu
+  input: FloorInput;
+}
+
+export type TemplatePlacement = {
+  id: string;
+  type: RoomType;
+  x: number; // center (m)
+  y: number; // center (m)
+  w: number;
+  h: number;
+  index: number; // thứ tự trong các phòng cùng loại (1-based)
+  count: number; // số phòng cùng loại
+};
+
+let cachedTemplates: LayoutTemplate[] | null = null;
+
+const EPS = 1e-6;
+
+const inRange = (v: number, r?: Range) =>
+  !r || (v >= r.min - EPS && v <= r.max + EPS);
+
+const isValidTemplate = (t: LayoutTemplate) =>
+  Boolean(t?.id && t.floor?.width && t.floor?.height && t.doorEdge) &&
+  Array.isArray(t.layout) &&
+  t.layout.every((r) => "rect" in r || ("anchor" in r && "size" in r));
+
+export const loadLayoutTemplates = async (): Promise<LayoutTemplate[]> => {
+  if (cachedTemplates) return cachedTemplates;
+
+  try {
+    const res = await axios.get<LayoutTemplatesData>("/layout_templates.json");
+    if (res.status === 200) {
+      cachedTemplates = (res.data.templates ?? []).filter((t) => {
+        const ok = isValidTemplate(t);
+        if (!ok) console.warn("Skipping malformed layout template:", t?.id);
+        return ok;
+      });
+      return cachedTemplates;
+    }
+    throw new Error(`Unexpected response: ${res.status}`);
+  } catch (error) {
+    console.warn("Could not load layout templates:", error);
+    return [];
+  }
+};
+
+const countByType = (rooms: Array<{ type: RoomType }>) =>
+  rooms.reduce(
+    (acc, r) => {
+      acc[r.type] = (acc[r.type] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+
+const sameSignature = (
+  a: Record<string, number>,
+  b: Record<string, number>
+) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const k of keys) if ((a[k] || 0) !== (b[k] || 0)) return false;
+  return true;
+};
+
+// Tâm cửa chính dọc theo cạnh, tính theo tỉ lệ 0..1 (cùng cách kẹp với mainDoorToLine)
+const doorCenterRatio = (input: FloorInput) => {
+  const { width, height, mainDoor } = input.floor;
+  const along = mainDoor.edge === "N" || mainDoor.edge === "S" ? width : height;
+  const w = Math.max(0.6, Math.min(mainDoor.width, along));
+  const off = Math.max(0, Math.min(mainDoor.offset, along - w));
+  return along > 0 ? (off + w / 2) / along : 0.5;
+};
+
+// Thử mọi hướng xoay/lật của dữ liệu nhập để một mẫu dùng được cho cả
+// bốn hướng cửa và kích thước sàn chuyển vị. Trả về mọi cách khớp, theo thứ
+// tự mẫu trong file rồi thứ tự hướng.
+export const matchTemplates = (
+  templates: LayoutTemplate[],
+  input: FloorInput
+): TemplateMatch[] => {
+  const signature = countByType(input.rooms ?? []);
+  const matches: TemplateMatch[] = [];
+
+  for (const template of templates) {
+    if (!sameSignature(template.rooms, signature)) continue;
+
+    for (const transform of ORIENTATIONS) {
+      const candidate = transformFloorInput(input, transform);
+      const { width, height, mainDoor } = candidate.floor;
+      if (template.doorEdge !== mainDoor.edge) continue;
+      if (!inRange(width, template.floor.width)) continue;
+      if (!inRange(height, template.floor.height)) continue;
+      if (!inRange(doorCenterRatio(candidate), template.doorRange)) continue;
+
+      matches.push({ template, transform, input: candidate });
+    }
+  }
+  return matches;
+};
+
+// Quy đổi mẫu ra toạ độ thực của sàn (theo hướng gốc của mẫu). Mỗi cạnh
+// phòng không nằm trên tường ngoài lùi vào nửa bề dày tường trong để hai
+// phòng kề nhau chừa đúng một bức tường. Trả về null nếu sau khi co giãn các
+// phòng tràn ra ngoài vùng khả dụng hoặc chồng lên nhau.
+export const instantiateTemplate = (
+  template: LayoutTemplate,
+  input: FloorInput
+): TemplatePlacement[] | null => {
+  const ext = input.walls?.exteriorThickness ?? 0.2;
+  const usableW = input.floor.width - 2 * ext;
+  const usableH = input.floor.height - 2 * ext;
+  const left = -usableW / 2,
+    bottom = -usableH / 2;
+  const half = Math.max(0, input.walls?.interiorThickness ?? 0.1) / 2;
+
+  const queues = (input.rooms ?? []).reduce(
+    (acc, r) => {
+      (acc[r.type] ??= []).push(r);
+      return acc;
+    },
+    {} as Record<string, typeof input.rooms>
+  );
+  const counts = countByType(input.rooms ?? []);
+  const used: Record<string, number> = {};
+
+  const placed: TemplatePlacement[] = [];
+  for (const entry of template.layout) {
+    let x0: number, y0: number, w: number, h: number;
+    if ("rect" in entry) {
+      x0 = left + entry.rect.x * usableW;
+      y0 = bottom + entry.rect.y * usableH;
+      w = entry.rect.w * usableW;
+      h = entry.rect.h * usableH;
+    } else {
+      const off = entry.offset ?? { x: 0, y: 0 };
+      w = entry.size.w;
+      h = entry.size.h;
+      x0 = entry.anchor.includes("E")
+        ? left + usableW - off.x - w
+        : left + off.x;
+      y0 = entry.anchor.includes("N")
+        ? bottom + usableH - off.y - h
+        : bottom + off.y;
+    }
+
+    let x1 = x0 + w,
+      y1 = y0 + h;
+    if (x0 > left + EPS) x0 += half;
+    if (x1 < left + usableW - EPS) x1 -= half;
+    if (y0 > bottom + EPS) y0 += half;
+    if (y1 < bottom + usableH - EPS) y1 -= half;
+    w = x1 - x0;
+    h = y1 - y0;
+
+    const x = x0 + w / 2,
+      y = y0 + h / 2;
+
+    const src = queues[entry.type]?.shift();
+    if (!src) return null;
+    used[entry.type] = (used[entry.type] || 0) + 1;
+
+    placed.push({
+      id: src.id,
+      type: entry.type,
+      x,
+      y,
+      w,
+      h,
+      index: used[entry.type],
+      count: counts[entry.type] || 1,
+    });
+  }
+
+  const inside = placed.every(
+    (p) =>
+      p.x - p.w / 2 >= left - EPS &&
+      p.x + p.w / 2 <= -left + EPS &&
+      p.y - p.h / 2 >= bottom - EPS &&
+      p.y + p.h / 2 <= -bottom + EPS
+  );
+  const overlapping = placed.some((a, i) =>
+    placed
+      .slice(i + 1)
+      .some((b) =>
+        rectsOverlap(
+          { x: a.x, y: a.y, w: a.w - EPS, h: a.h - EPS },
+          { x: b.x, y: b.y, w: b.w - EPS, h: b.h - EPS }
+        )
+      )
+  );
+  return inside && !overlapping ? placed : null;
+};
@@ -0,0 +1,256 @@
+import type {
+  DoorInput,
+  Edge,
+  FloorInput,
+  RoomAttach,
+  RoomCorner,
+  RoomInput,
+} from "@/components/FloorForm";
+import type {
+  LayoutResult,
+  PlacedDoor,
+  PlacedRoom,
+  RoomDoor,
+} from "./GenerateLayout";
+import type { PlacedCorridor } from "./CorridorRouting";
+import type { WallGraph } from "./WallGraph";
+
+// Phép biến đổi trực giao trên lưới: x' = a·x + b·y, y' = c·x + d·y
+// (chỉ gồm xoay 90° và lật, các hệ số đều thuộc {-1, 0, 1})
+export type Transform = { a: number; b: number; c: number; d: number };
+
+type Vec = { x: number; y: number };
+
+export const IDENTITY: Transform = { a: 1, b: 0, c: 0, d: 1 };
+// Lật qua trục dọc (x → -x) và qua trục ngang (y → -y)
+export const MIRROR_X: Transform = { a: -1, b: 0, c: 0, d: 1 };
+export const MIRROR_Y: Transform = { a: 1, b: 0, c: 0, d: -1 };
+
+// Xoay ngược chiều kim đồng hồ quarterTurns × 90°
+export const rotation = (quarterTurns: number): Transform => {
+  const q = ((quarterTurns % 4) + 4) % 4;
+  const cos = [1, 0, -1, 0][q];
+  const sin = [0, 1, 0, -1][q];
+  return { a: cos, b: -sin, c: sin, d: cos };
+};
+
+// Áp dụng `first` trước rồi tới `second`
+export const compose = (second: Transform, first: Transform): Transform => ({
+  a: second.a * first.a + second.b * first.c,
+  b: second.a * first.b + second.b * first.d,
+  c: second.c * first.a + second.d * first.c,
+  d: second.c * first.b + second.d * first.d,
+});
+
+// Ma trận trực giao nên nghịch đảo chính là chuyển vị
+export const invert = (t: Transform): Transform => ({
+  a: t.a,
+  b: t.c,
+  c: t.b,
+  d: t.d,
+});
+
+// 8 hướng: 4 góc xoay, mỗi góc có và không lật. Hướng gốc đứng đầu.
+export const ORIENTATIONS: Transform[] = [0, 1, 2, 3].flatMap((q) => [
+  rotation(q),
+  compose(rotation(q), MIRROR_X),
+]);
+
+const swapsAxes = (t: Transform) => t.a === 0;
+
+const apply = (t: Transform, p: Vec): Vec => ({
+  x: t.a * p.x + t.b * p.y,
+  y: t.c * p.x + t.d * p.y,
+});
+
+const EDGE_NORMALS: Record<Edge, Vec> = {
+  N: { x: 0, y: 1 },
+  S: { x: 0, y: -1 },
+  E: { x: 1, y: 0 },
+  W: { x: -1, y: 0 },
+};
+
+export const transformEdge = (t: Transform, edge: Edge): Edge => {
+  const n = apply(t, EDGE_NORMALS[edge]);
+  if (n.y > 0) return "N";
+  if (n.y < 0) return "S";
+  return n.x > 0 ? "E" : "W";
+};
+
+// Góc là cặp hai cạnh, viết lại theo thứ tự N/S trước E/W
+const transformAttach = (t: Transform, attach: RoomAttach): RoomAttach => {
+  const sides = [...attach].map((e) => transformEdge(t, e as Edge));
+  if (sides.length === 1) return sides[0];
+  const ns = sides.find((e) => e === "N" || e === "S");
+  const ew = sides.find((e) => e === "E" || e === "W");
+  return `${ns}${ew}` as RoomCorner;
+};
+
+// offsetRatio đo từ đầu -x (cạnh N/S) hoặc -y (cạnh E/W); nếu phép biến đổi
+// đảo chiều trục dọc cạnh thì tỉ lệ phải lấy phần bù
+const transformSideDoor = <T extends { side: Edge; offsetRatio: number }>(
+  t: Transform,
+  door: T
+): T => {
+  const along: Vec =
+    door.side === "N" || door.side === "S" ? { x: 1, y: 0 } : { x: 0, y: 1 };
+  const mapped = apply(t, along);
+  const side = transformEdge(t, door.side);
+  const reversed = side === "N" || side === "S" ? mapped.x < 0 : mapped.y < 0;
+  return {
+    ...door,
+    side,
+    offsetRatio: reversed ? 1 - door.offsetRatio : door.offsetRatio,
+  };
+};
+
+const transformDoorLine = (t: Transform, door: PlacedDoor): PlacedDoor => {
+  const p1 = apply(t, { x: door.x1, y: door.y1 });
+  const p2 = apply(t, { x: door.x2, y: door.y2 });
+  return {
+    x1: p1.x,
+    y1: p1.y,
+    x2: p2.x,
+    y2: p2.y,
+    ...(door.normal && { normal: apply(t, door.normal) }),
+  };
+};
+
+// Phép lật đảo chiều đa giác — đảo lại thứ tự đỉnh để giữ ngược chiều kim
+// đồng hồ
+const transformOutline = (t: Transform, outline: Vec[]) => {
+  const mapped = outline.map((p) => apply(t, p));
+  return t.a * t.d - t.b * t.c < 0 ? mapped.reverse() : mapped;
+};
+
+export const transformLayout = (
+  layout: LayoutResult,
+  t: Transform
+): LayoutResult => {
+  const swap = swapsAxes(t);
+  const rooms = (list: PlacedRoom[]) =>
+    list.map((r) => {
+      const c = apply(t, r);
+      return {
+        ...r,
+        x: c.x,
+        y: c.y,
+        w: swap ? r.h : r.w,
+        h: swap ? r.w : r.h,
+        rawDoors: r.rawDoors?.map((d) => transformSideDoor<RoomDoor>(t, d)),
+      };
+    });
+  const corridors = (list?: PlacedCorridor[]) =>
+    list?.map((c) => {
+      const p = apply(t, c);
+      return {
+        ...c,
+        x: p.x,
+        y: p.y,
+        w: swap ? c.h : c.w,
+        h: swap ? c.w : c.h,
+      };
+    });
+  const walls = (graph?: WallGraph) =>
+    graph && {
+      nodes: graph.nodes.map((n) => ({ ...n, ...apply(t, n) })),
+      segments: graph.segments.map((s) => ({
+        ...s,
+        ...transformDoorLine(t, s),
+        openings: s.openings.map((o) => ({ ...o, ...transformDoorLine(t, o) })),
+      })),
+    };
+  return {
+    ...layout,
+    floor: {
+      ...layout.floor,
+      width: swap ? layout.floor.height : layout.floor.width,
+      height: swap ? layout.floor.width : layout.floor.height,
+      mainDoor: transformDoorLine(t, layout.floor.mainDoor),
+      ...(layout.floor.outline && {
+        outline: transformOutline(t, layout.floor.outline),
+      }),
+    },
+    rooms: rooms(layout.rooms),
+    corridors: corridors(layout.corridors),
+    walls: walls(layout.walls),
+    storeys: layout.storeys?.map((storey) => ({
+      ...storey,
+      rooms: rooms(storey.rooms),
+      corridors: corridors(storey.corridors),
+      walls: walls(storey.walls),
+    })),
+  };
+};
+
+export const rotateLayout = (layout: LayoutResult, quarterTurns: number) =>
+  transformLayout(layout, rotation(quarterTurns));
+
+export const mirrorLayout = (layout: LayoutResult, axis: "x" | "y") =>
+  transformLayout(layout, axis === "x" ? MIRROR_X : MIRROR_Y);
+
+// Biến đổi dữ liệu nhập (kích thước sàn, cửa chính, cửa phòng) sang hệ toạ độ mới
+export const transformFloorInput = (
+  input: FloorInput,
+  t: Transform
+): FloorInput => {
+  const { width, height, mainDoor } = input.floor;
+  const swap = swapsAxes(t);
+  const newW = swap ? height : width;
+  const newH = swap ? width : height;
+
+  const horizontal = mainDoor.edge === "N" || mainDoor.edge === "S";
+  const start = (horizontal ? -width / 2 : -height / 2) + mainDoor.offset;
+  const fixed = { N: height / 2, S: -height / 2, E: width / 2, W: -width / 2 }[
+    mainDoor.edge
+  ];
+  const p1 = apply(
+    t,
+    horizontal ? { x: start, y: fixed } : { x: fixed, y: start }
+  );
+  const p2 = apply(
+    t,
+    horizontal
+      ? { x: start + mainDoor.width, y: fixed }
+      : { x: fixed, y: start + mainDoor.width }
+  );
+  const edge = transformEdge(t, mainDoor.edge);
+  const roomInputs = (rooms: RoomInput[]) =>
+    rooms.map((r) => ({
+      ...r,
+      doors: r.doors.map((d) => transformSideDoor<DoorInput>(t, d)),
+      ...(r.attach && { attach: transformAttach(t, r.attach) }),
+      ...(r.pin && {
+        pin: {
+          ...apply(t, r.pin),
+          w: swap ? r.pin.h : r.pin.w,
+          h: swap ? r.pin.w : r.pin.h,
+        },
+      }),
+    }));
+  const offset =
+    edge === "N" || edge === "S"
+      ? Math.min(p1.x, p2.x) + newW / 2
+      : Math.min(p1.y, p2.y) + newH / 2;
+
+  return {
+    ...input,
+    floor: {
+      ...input.floor,
+      width: newW,
+      height: newH,
+      mainDoor: { ...mainDoor, edge, offset },
+    },
+    rooms: roomInputs(input.rooms ?? []),
+    upperStoreys: input.upperStoreys?.map((storey) => ({
+      ...storey,
+      rooms: roomInputs(storey.rooms),
+    })),
+    stair: input.stair && {
+      ...input.stair,
+      ...(input.stair.x !== undefined &&
+        input.stair.y !== undefined &&
+        apply(t, { x: input.stair.x, y: input.stair.y })),
+    },
+  };
+};
@@ -0,0 +1,102 @@
+import {
+  layoutWallGraph,
+  storeyView,
+  type LayoutResult,
+} from "./GenerateLayout";
+import type { WallGraph, WallGraphOptions, WallPiece } from "./WallGraph";
+import { doorNormal, type Point } from "./FloorOutline";
+import { doorSpanOnSide, rectBounds } from "./RoomGeometry";
+
+// Hình học bản vẽ dùng chung cho các bộ xuất (SVG, DXF): cùng đồ thị tường
+// và vị trí cửa với Floor2DCanvas
+
+// Cánh cửa: bản lề ở `hinge`, cửa đóng nằm theo `along`, mở ra theo `into`
+// (cả hai là vector đơn vị), dài `radius`
+export type DoorSwing = {
+  hinge: Point;
+  along: Point;
+  into: Point;
+  radius: number;
+  main: boolean;
+};
+
+const EPS = 1e-6;
+
+// Các tầng cần vẽ (bố cục một tầng: chính nó, không tên)
+export const planStoreys = (
+  layout: LayoutResult
+): Array<{ view: LayoutResult; name?: string }> =>
+  layout.storeys?.length
+    ? layout.storeys.map((s, i) => ({
+        view: storeyView(layout, i),
+        name: s.name,
+      }))
+    : [{ view: layout }];
+
+export const planWalls = (
+  layout: LayoutResult,
+  options: WallGraphOptions
+): WallGraph => layout.walls ?? layoutWallGraph(layout, layout.rooms, options);
+
+// Bốn góc của một phần tường: hình chữ nhật quanh trục, rộng bằng bề dày
+export const wallPieceCorners = (piece: WallPiece): Point[] => {
+  const length = Math.hypot(piece.x2 - piece.x1, piece.y2 - piece.y1);
+  if (length <= EPS) return [];
+  const nx = (-(piece.y2 - piece.y1) / length) * (piece.thickness / 2),
+    ny = ((piece.x2 - piece.x1) / length) * (piece.thickness / 2);
+  return [
+    { x: piece.x1 + nx, y: piece.y1 + ny },
+    { x: piece.x2 + nx, y: piece.y2 + ny },
+    { x: piece.x2 - nx, y: piece.y2 - ny },
+    { x: piece.x1 - nx, y: piece.y1 - ny },
+  ];
+};
+
+// Cánh cửa của một tầng: cửa phòng (rawDoors) mở vào trong phòng, cửa
+// trên tường chung khai báo ở cả hai phòng chỉ lấy một lần; cửa chính mở
+// vào trong từ mặt trong tường ngoài (tầng trên không có cửa chính)
+export const doorSwings = (
+  layout: LayoutResult,
+  options: WallGraphOptions
+): DoorSwing[] => {
+  const seen = new Set<string>();
+  const swings: DoorSwing[] = [];
+  for (const room of layout.rooms) {
+    const b = rectBounds(room);
+    for (const door of room.rawDoors ?? []) {
+      const span = doorSpanOnSide(room, door);
+      const horizontal = door.side === "N" || door.side === "S";
+      const edge = { N: b.top, S: b.bottom, E: b.right, W: b.left }[door.side];
+      const outward = door.side === "N" || door.side === "E" ? 1 : -1;
+      const axis = edge + (outward * options.interiorThickness) / 2;
+      const key = `${horizontal ? "H" : "V"}:${axis.toFixed(2)}:${span.start.toFixed(2)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      swings.push({
+        hinge: horizontal
+          ? { x: span.start, y: edge }
+          : { x: edge, y: span.start },
+        along: horizontal ? { x: 1, y: 0 } : { x: 0, y: 1 },
+        into: horizontal ? { x: 0, y: -outward } : { x: -outward, y: 0 },
+        radius: span.end - span.start,
+        main: false,
+      });
+    }
+  }
+
+  const md = layout.floor.mainDoor;
+  const length = Math.hypot(md.x2 - md.x1, md.y2 - md.y1);
+  if (!layout.entryRoomId && length > EPS) {
+    const n = doorNormal(md);
+    const ext = options.exteriorThickness;
+    swings.push({
+      hinge: { x: md.x1 - n.x * ext, y: md.y1 - n.y * ext },
+      along: { x: (md.x2 - md.x1) / length, y: (md.y2 - md.y1) / length },
+      into: { x: -n.x, y: -n.y },
+      radius: length,
+      main: true,
+    });
+  }
+  return swings;
+};
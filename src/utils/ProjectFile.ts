@@ -0,0 +1,410 @@
+import type { FloorInput } from "@/components/FloorForm";
+import type { LayoutResult } from "./GenerateLayout";
+
+// Tăng khi đổi cấu trúc tệp và thêm bước nâng cấp tương ứng vào MIGRATIONS
+export const PROJECT_SCHEMA_VERSION = 1;
+
+export interface ProjectMetadata {
+  name: string;
+  // Khách hàng (tuỳ chọn) — dùng khi tìm trong thư viện dự án
+  client?: string;
+  // Thời điểm tạo / lưu gần nhất (ISO 8601)
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectFile {
+  schemaVersion: number;
+  // version của room_preset.json lúc lưu — khác bản hiện tại thì tạo lại có
+  // thể ra kết quả khác
+  presetVersion?: string;
+  metadata: ProjectMetadata;
+  input: FloorInput;
+  // Phương án đang xem lúc lưu
+  layout?: LayoutResult;
+}
+
+// Lỗi đọc tệp dự án; details liệt kê từng trường không hợp lệ
+export class ProjectFileError extends Error {
+  details: string[];
+
+  constructor(message: string, details: string[] = []) {
+    super(message);
+    this.name = "ProjectFileError";
+    this.details = details;
+  }
+}
+
+type RawProject = Record<string, unknown>;
+
+// MIGRATIONS[n] nâng tài liệu từ phiên bản n lên n + 1
+const MIGRATIONS: Record<number, (doc: RawProject) => RawProject> = {};
+
+const EDGES = new Set(["N", "E", "S", "W"]);
+const WALL_KINDS = new Set(["exterior", "shared", "free"]);
+const OPENING_KINDS = new Set(["door", "mainDoor"]);
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isNumber = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v);
+
+const checkRoomInputs = (rooms: unknown, path: string, errors: string[]) => {
+  if (!Array.isArray(rooms)) {
+    errors.push(`${path}: phải là danh sách`);
+    return;
+  }
+  rooms.forEach((r, i) => {
+    const at = `${path}[${i}]`;
+    if (!isObject(r)) {
+      errors.push(`${at}: không phải đối tượng`);
+      return;
+    }
+    if (typeof r.id !== "string") errors.push(`${at}.id: thiếu`);
+    if (typeof r.type !== "string") errors.push(`${at}.type: thiếu`);
+    if (!Array.isArray(r.doors)) {
+      errors.push(`${at}.doors: phải là danh sách`);
+      return;
+    }
+    r.doors.forEach((d, j) => {
+      if (
+        !isObject(d) ||
+        typeof d.id !== "string" ||
+        !EDGES.has(d.side as string) ||
+        !isNumber(d.width) ||
+        !isNumber(d.offsetRatio)
+      ) {
+        errors.push(`${at}.doors[${j}]: cửa không hợp lệ`);
+      }
+    });
+  });
+};
+
+const checkInput = (input: unknown, errors: string[]) => {
+  if (!isObject(input)) {
+    errors.push("input: thiếu dữ liệu nhập");
+    return;
+  }
+  const floor = input.floor;
+  if (!isObject(floor)) {
+    errors.push("input.floor: thiếu");
+  } else {
+    for (const key of ["width", "height"] as const) {
+      if (!isNumber(floor[key]) || (floor[key] as number) <= 0) {
+        errors.push(`input.floor.${key}: phải là số dương`);
+      }
+    }
+    const md = floor.mainDoor;
+    if (
+      !isObject(md) ||
+      !EDGES.has(md.edge as string) ||
+      !isNumber(md.offset) ||
+      !isNumber(md.width)
+    ) {
+      errors.push("input.floor.mainDoor: cửa chính không hợp lệ");
+    }
+    if (
+      floor.outline !== undefined &&
+      !(
+        Array.isArray(floor.outline) &&
+        floor.outline.length >= 3 &&
+        floor.outline.every(
+          (p) => isObject(p) && isNumber(p.x) && isNumber(p.y)
+        )
+      )
+    ) {
+      errors.push("input.floor.outline: đường bao không hợp lệ");
+    }
+  }
+
+  checkRoomInputs(input.rooms, "input.rooms", errors);
+  if (input.upperStoreys !== undefined) {
+    if (!Array.isArray(input.upperStoreys)) {
+      errors.push("input.upperStoreys: phải là danh sách");
+    } else {
+      input.upperStoreys.forEach((storey, i) => {
+        const at = `input.upperStoreys[${i}]`;
+        if (
+          !isObject(storey) ||
+          typeof storey.id !== "string" ||
+          typeof storey.name !== "string"
+        ) {
+          errors.push(`${at}: tầng không hợp lệ`);
+          return;
+        }
+        checkRoomInputs(storey.rooms, `${at}.rooms`, errors);
+      });
+    }
+  }
+  if (
+    input.stair !== undefined &&
+    !(
+      isObject(input.stair) &&
+      isNumber(input.stair.width) &&
+      isNumber(input.stair.length)
+    )
+  ) {
+    errors.push("input.stair: cầu thang không hợp lệ");
+  }
+  if (
+    input.lastRoomNumber !== undefined &&
+    !(
+      Number.isInteger(input.lastRoomNumber) &&
+      (input.lastRoomNumber as number) >= 0
+    )
+  ) {
+    errors.push("input.lastRoomNumber: phải là số nguyên không âm");
+  }
+  const walls = input.walls;
+  if (
+    !isObject(walls) ||
+    !isNumber(walls.exteriorThickness) ||
+    !isNumber(walls.interiorThickness)
+  ) {
+    errors.push("input.walls: độ dày tường không hợp lệ");
+  }
+};
+
+const checkPlacedRooms = (rooms: unknown, path: string, errors: string[]) => {
+  if (!Array.isArray(rooms)) {
+    errors.push(`${path}: phải là danh sách`);
+    return;
+  }
+  rooms.forEach((r, i) => {
+    if (
+      !isObject(r) ||
+      typeof r.id !== "string" ||
+      typeof r.type !== "string" ||
+      !["x", "y", "w", "h"].every((k) => isNumber(r[k]))
+    ) {
+      errors.push(`${path}[${i}]: phòng không hợp lệ`);
+    }
+  });
+};
+
+// Đoạn thẳng (x1, y1) → (x2, y2), như cửa chính hay ô cửa trên tường
+const isLine = (v: unknown): v is Record<string, unknown> =>
+  isObject(v) && ["x1", "y1", "x2", "y2"].every((k) => isNumber(v[k]));
+
+const checkCorridors = (corridors: unknown, path: string, errors: string[]) => {
+  if (corridors === undefined) return;
+  if (!Array.isArray(corridors)) {
+    errors.push(`${path}: phải là danh sách`);
+    return;
+  }
+  corridors.forEach((c, i) => {
+    if (
+      !isObject(c) ||
+      typeof c.id !== "string" ||
+      !["x", "y", "w", "h"].every((k) => isNumber(c[k]))
+    ) {
+      errors.push(`${path}[${i}]: hành lang không hợp lệ`);
+    }
+  });
+};
+
+// Đồ thị tường đã lưu: canvas và các bộ xuất dùng thẳng, không dựng lại
+const checkWalls = (walls: unknown, path: string, errors: string[]) => {
+  if (walls === undefined) return;
+  if (
+    !isObject(walls) ||
+    !Array.isArray(walls.nodes) ||
+    !Array.isArray(walls.segments)
+  ) {
+    errors.push(`${path}: đồ thị tường không hợp lệ`);
+    return;
+  }
+  walls.nodes.forEach((n, i) => {
+    if (
+      !isObject(n) ||
+      typeof n.id !== "string" ||
+      !isNumber(n.x) ||
+      !isNumber(n.y)
+    ) {
+      errors.push(`${path}.nodes[${i}]: nút tường không hợp lệ`);
+    }
+  });
+  walls.segments.forEach((seg, i) => {
+    if (
+      !isLine(seg) ||
+      typeof seg.id !== "string" ||
+      !WALL_KINDS.has(seg.kind as string) ||
+      typeof seg.from !== "string" ||
+      typeof seg.to !== "string" ||
+      !isNumber(seg.thickness) ||
+      !Array.isArray(seg.rooms) ||
+      !seg.rooms.every((id) => typeof id === "string") ||
+      !Array.isArray(seg.openings) ||
+      !seg.openings.every(
+        (o) => isLine(o) && OPENING_KINDS.has(o.kind as string)
+      )
+    ) {
+      errors.push(`${path}.segments[${i}]: đoạn tường không hợp lệ`);
+    }
+  });
+};
+
+const checkLayout = (layout: unknown, errors: string[]) => {
+  if (!isObject(layout)) {
+    errors.push("layout: không phải đối tượng");
+    return;
+  }
+  const floor = layout.floor;
+  if (
+    !isObject(floor) ||
+    !isNumber(floor.width) ||
+    !isNumber(floor.height) ||
+    !isLine(floor.mainDoor) ||
+    (floor.outline !== undefined &&
+      !(
+        Array.isArray(floor.outline) &&
+        floor.outline.length >= 3 &&
+        floor.outline.every(
+          (p) => isObject(p) && isNumber(p.x) && isNumber(p.y)
+        )
+      ))
+  ) {
+    errors.push("layout.floor: sàn không hợp lệ");
+  }
+  checkPlacedRooms(layout.rooms, "layout.rooms", errors);
+  checkCorridors(layout.corridors, "layout.corridors", errors);
+  checkWalls(layout.walls, "layout.walls", errors);
+  if (!Array.isArray(layout.warnings)) {
+    errors.push("layout.warnings: phải là danh sách");
+  }
+  if (layout.storeys !== undefined) {
+    if (!Array.isArray(layout.storeys)) {
+      errors.push("layout.storeys: phải là danh sách");
+    } else {
+      layout.storeys.forEach((storey, i) => {
+        const at = `layout.storeys[${i}]`;
+        if (
+          !isObject(storey) ||
+          typeof storey.id !== "string" ||
+          typeof storey.name !== "string" ||
+          !Array.isArray(storey.warnings)
+        ) {
+          errors.push(`${at}: tầng không hợp lệ`);
+          return;
+        }
+        checkPlacedRooms(storey.rooms, `${at}.rooms`, errors);
+        checkCorridors(storey.corridors, `${at}.corridors`, errors);
+        checkWalls(storey.walls, `${at}.walls`, errors);
+      });
+    }
+  }
+};
+
+// Nâng tài liệu cũ lên phiên bản hiện tại qua từng bước trong MIGRATIONS
+const migrateProject = (doc: RawProject, version: number): RawProject => {
+  let current = doc;
+  for (let v = version; v < PROJECT_SCHEMA_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) {
+      throw new ProjectFileError(
+        `Không nâng cấp được tệp dự án từ phiên bản ${v}`
+      );
+    }
+    current = { ...migrate(current), schemaVersion: v + 1 };
+  }
+  return current;
+};
+
+export const createProjectFile = (
+  input: FloorInput,
+  layout: LayoutResult | null | undefined,
+  metadata: { name: string; client?: string; createdAt?: string },
+  presetVersion?: string
+): ProjectFile => {
+  const now = new Date().toISOString();
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    ...(presetVersion && { presetVersion }),
+    metadata: {
+      name: metadata.name,
+      ...(metadata.client && { client: metadata.client }),
+      createdAt: metadata.createdAt ?? now,
+      updatedAt: now,
+    },
+    input,
+    ...(layout && { layout }),
+  };
+};
+
+export const serializeProject = (project: ProjectFile) =>
+  JSON.stringify(project, null, 2);
+
+// Kiểm tra cấu trúc và nâng cấp phiên bản cũ của một tài liệu dự án đã đọc
+// (từ tệp hoặc thư viện). warnings: những điểm khác biệt không chặn việc
+// mở (vd. room_preset.json đã đổi phiên bản)
+export const readProject = (
+  doc: unknown,
+  currentPresetVersion?: string
+): { project: ProjectFile; warnings: string[] } => {
+  if (!isObject(doc)) {
+    throw new ProjectFileError("Tệp không phải tệp dự án");
+  }
+  const version = doc.schemaVersion;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw new ProjectFileError("Tệp thiếu phiên bản định dạng (schemaVersion)");
+  }
+  if ((version as number) > PROJECT_SCHEMA_VERSION) {
+    throw new ProjectFileError(
+      `Tệp được lưu bằng định dạng mới hơn (phiên bản ${version}) — hãy cập nhật ứng dụng`
+    );
+  }
+
+  const migrated = migrateProject(doc, version as number);
+  const errors: string[] = [];
+  checkInput(migrated.input, errors);
+  if (migrated.layout !== undefined) checkLayout(migrated.layout, errors);
+  if (errors.length) {
+    throw new ProjectFileError("Tệp dự án không hợp lệ", errors);
+  }
+
+  const meta = isObject(migrated.metadata) ? migrated.metadata : {};
+  const now = new Date().toISOString();
+  const project: ProjectFile = {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    ...(typeof migrated.presetVersion === "string" && {
+      presetVersion: migrated.presetVersion,
+    }),
+    metadata: {
+      name: typeof meta.name === "string" ? meta.name : "Dự án",
+      ...(typeof meta.client === "string" && { client: meta.client }),
+      createdAt: typeof meta.createdAt === "string" ? meta.createdAt : now,
+      updatedAt: typeof meta.updatedAt === "string" ? meta.updatedAt : now,
+    },
+    input: migrated.input as FloorInput,
+    ...(migrated.layout !== undefined && {
+      layout: migrated.layout as LayoutResult,
+    }),
+  };
+
+  const warnings: string[] = [];
+  if (
+    project.presetVersion &&
+    currentPresetVersion &&
+    project.presetVersion !== currentPresetVersion
+  ) {
+    warnings.push(
+      `Dự án lưu với room_preset.json phiên bản ${project.presetVersion}, hiện tại là ${currentPresetVersion} — tạo lại có thể cho kết quả khác`
+    );
+  }
+  return { project, warnings };
+};
+
+// Đọc tệp dự án (.json) do người dùng chọn
+export const parseProjectFile = (
+  text: string,
+  currentPresetVersion?: string
+) => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("Tệp không phải JSON hợp lệ");
+  }
+  return readProject(doc, currentPresetVersion);
+};
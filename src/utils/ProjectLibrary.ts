@@ -0,0 +1,174 @@
+import type { ProjectFile } from "./ProjectFile";
+
+// Thư viện dự án lưu trong IndexedDB của trình duyệt: mỗi dự án một bản
+// ghi { id, file }, cộng một ô tự lưu riêng cho phiên làm việc đang mở
+const DB_NAME = "floorplan-library";
+const DB_VERSION = 1;
+const PROJECTS = "projects";
+const AUTOSAVE = "autosave";
+const AUTOSAVE_KEY = "current";
+
+export interface LibraryProject {
+  id: string;
+  file: ProjectFile;
+}
+
+export interface AutosaveRecord {
+  // Dự án trong thư viện đang mở (chưa lưu vào thư viện thì để trống)
+  projectId?: string;
+  savedAt: string;
+  file: ProjectFile;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("Trình duyệt không hỗ trợ IndexedDB"));
+  }
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) {
+        db.createObjectStore(PROJECTS, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(AUTOSAVE)) {
+        db.createObjectStore(AUTOSAVE);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Chạy một yêu cầu trong giao dịch riêng; trả kết quả khi giao dịch xong
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const req = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const newProjectId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Mới sửa nhất lên đầu
+export const listProjects = async (): Promise<LibraryProject[]> =>
+  (await run<LibraryProject[]>(PROJECTS, "readonly", (s) => s.getAll())).sort(
+    (a, b) => b.file.metadata.updatedAt.localeCompare(a.file.metadata.updatedAt)
+  );
+
+export const getProject = (id: string) =>
+  run<LibraryProject | undefined>(PROJECTS, "readonly", (s) => s.get(id));
+
+export const putProject = async (entry: LibraryProject) => {
+  await run(PROJECTS, "readwrite", (s) => s.put(entry));
+};
+
+export const deleteProject = async (id: string) => {
+  await run(PROJECTS, "readwrite", (s) => s.delete(id));
+};
+
+export const renameProject = async (id: string, name: string) => {
+  const entry = await getProject(id);
+  if (!entry) return;
+  const metadata = {
+    ...entry.file.metadata,
+    name,
+    updatedAt: new Date().toISOString(),
+  };
+  await putProject({ ...entry, file: { ...entry.file, metadata } });
+};
+
+export const duplicateProject = async (
+  id: string
+): Promise<LibraryProject | undefined> => {
+  const entry = await getProject(id);
+  if (!entry) return undefined;
+  const now = new Date().toISOString();
+  const copy = {
+    id: newProjectId(),
+    file: {
+      ...entry.file,
+      metadata: {
+        ...entry.file.metadata,
+        name: `${entry.file.metadata.name} (bản sao)`,
+        createdAt: now,
+        updatedAt: now,
+      },
+    },
+  };
+  await putProject(copy);
+  return copy;
+};
+
+export const readAutosave = () =>
+  run<AutosaveRecord | undefined>(AUTOSAVE, "readonly", (s) =>
+    s.get(AUTOSAVE_KEY)
+  );
+
+export const writeAutosave = async (record: AutosaveRecord) => {
+  await run(AUTOSAVE, "readwrite", (s) => s.put(record, AUTOSAVE_KEY));
+};
+
+export const clearAutosave = async () => {
+  await run(AUTOSAVE, "readwrite", (s) => s.delete(AUTOSAVE_KEY));
+};
+
+// So khớp không phân biệt hoa thường và dấu tiếng Việt
+const normalize = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/gi, "d")
+    .toLowerCase();
+
+const LOT_SIZE = /^(\d+(?:[.,]\d+)?)\s*[x×*]\s*(\d+(?:[.,]\d+)?)$/;
+const SIZE_TOLERANCE = 0.05;
+
+// Một từ khoá khớp tên dự án / khách hàng, hoặc kích thước lô đất:
+// "8x12" (không phân biệt chiều) hay một số "8" (rộng hoặc dài)
+const matchesTerm = (entry: LibraryProject, term: string) => {
+  const { name, client = "" } = entry.file.metadata;
+  if (normalize(`${name} ${client}`).includes(normalize(term))) return true;
+
+  const { width, height } = entry.file.input.floor;
+  const near = (a: number, b: number) => Math.abs(a - b) <= SIZE_TOLERANCE;
+  const num = (s: string) => parseFloat(s.replace(",", "."));
+  const lot = term.match(LOT_SIZE);
+  if (lot) {
+    const [a, b] = [num(lot[1]), num(lot[2])];
+    return (
+      (near(width, a) && near(height, b)) || (near(width, b) && near(height, a))
+    );
+  }
+  if (/^\d+(?:[.,]\d+)?$/.test(term)) {
+    return near(width, num(term)) || near(height, num(term));
+  }
+  return false;
+};
+
+// Lọc thư viện theo chuỗi tìm kiếm; mọi từ khoá (cách nhau bởi dấu cách)
+// đều phải khớp
+export const searchProjects = (entries: LibraryProject[], query: string) => {
+  const terms = query
+    // "8 x 12" là một từ khoá kích thước lô
+    .replace(/(\d)\s*([x×*])\s*(?=\d)/g, "$1$2")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+  return entries.filter((entry) => terms.every((t) => matchesTerm(entry, t)));
+};
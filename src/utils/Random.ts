@@ -0,0 +1,18 @@
+// Bộ sinh số giả ngẫu nhiên có seed (mulberry32): cùng seed luôn cho cùng
+// một dãy số trong [0, 1), thay cho Math.random khi cần kết quả lặp lại được
+export const createRng = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Seed ngẫu nhiên (số nguyên 32-bit không dấu) khi người dùng không chỉ định
+export const randomSeed = () => Math.floor(Math.random() * 0x100000000);
+
+export const isValidSeed = (seed: number) =>
+  Number.isInteger(seed) && seed >= 0 && seed < 0x100000000;
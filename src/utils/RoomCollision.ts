@@ -0,0 +1,130 @@
+import { rectsOverlap, type Rect } from "./RoomGeometry";
+import { rectInsidePolygon, type Point } from "./FloorOutline";
+
+// block:     không cho phòng đang kéo chồng lên phòng khác
+// push:      đẩy các phòng bị chạm ra xa (dây chuyền), không đẩy được thì chặn
+// highlight: cho chồng lấn, chỉ tô đỏ các phòng chồng nhau
+export type CollisionMode = "block" | "push" | "highlight";
+
+export type CollisionRoom = Rect & { id: string };
+
+// Vùng khả dụng của sàn (khung bao đã trừ tường ngoài), gốc ở tâm sàn;
+// sàn đa giác thêm `outline` là đường bao đã trừ tường ngoài
+export type CollisionBounds = {
+  halfW: number;
+  halfH: number;
+  outline?: Point[];
+};
+
+const EPS = 1e-6;
+
+// Chồng lấn thực sự — hai phòng chạm cạnh nhau không tính
+const overlaps = (a: Rect, b: Rect) =>
+  rectsOverlap(a, { x: b.x, y: b.y, w: b.w - 2 * EPS, h: b.h - 2 * EPS });
+
+// Vùng phòng chiếm kể cả khoảng `gap` (bề dày tường trong) ở mỗi phía: hai
+// phòng cách nhau đúng `gap` không tính là va chạm
+const withGap = (r: Rect, gap: number): Rect => ({
+  x: r.x,
+  y: r.y,
+  w: r.w + 2 * Math.max(0, gap - EPS),
+  h: r.h + 2 * Math.max(0, gap - EPS),
+});
+
+// Các phòng đang chồng lên ít nhất một phòng khác
+export const overlappingRoomIds = (rooms: CollisionRoom[]) => {
+  const ids = new Set<string>();
+  for (let i = 0; i < rooms.length; i++) {
+    for (let j = i + 1; j < rooms.length; j++) {
+      if (overlaps(rooms[i], rooms[j])) {
+        ids.add(rooms[i].id);
+        ids.add(rooms[j].id);
+      }
+    }
+  }
+  return ids;
+};
+
+// Phòng nằm trọn trong vùng khả dụng của sàn
+export const insideBounds = (room: Rect, bounds: CollisionBounds) =>
+  Math.abs(room.x) + room.w / 2 <= bounds.halfW + EPS &&
+  Math.abs(room.y) + room.h / 2 <= bounds.halfH + EPS &&
+  (!bounds.outline || rectInsidePolygon(room, bounds.outline));
+
+export const collidesWith = (
+  room: CollisionRoom,
+  others: CollisionRoom[],
+  gap = 0
+) => {
+  const zone = withGap(room, gap);
+  return others.some((o) => o.id !== room.id && overlaps(zone, o));
+};
+
+// Chế độ chặn: giữ vị trí đích nếu trống (cách phòng khác ít nhất `gap`,
+// nằm trong `bounds` nếu có), không thì trượt theo một trục (giữ toạ độ còn
+// lại ở vị trí trước), cuối cùng đứng yên
+export const blockedMove = (
+  room: CollisionRoom,
+  previous: { x: number; y: number },
+  others: CollisionRoom[],
+  gap = 0,
+  bounds?: CollisionBounds
+): { x: number; y: number } => {
+  const cands = [
+    { x: room.x, y: room.y },
+    { x: room.x, y: previous.y },
+    { x: previous.x, y: room.y },
+  ];
+  return (
+    cands.find(
+      (c) =>
+        (!bounds || insideBounds({ ...room, ...c }, bounds)) &&
+        !collidesWith({ ...room, ...c }, others, gap)
+    ) ?? previous
+  );
+};
+
+// Chế độ đẩy: phòng bị chạm lùi ra theo trục chồng ít hơn, cách phòng đẩy
+// một khoảng `gap` (bề dày tường trong), rồi có thể đẩy tiếp phòng khác.
+// Trả về vị trí mới của các phòng bị đẩy, hoặc null khi phải đẩy phòng cố
+// định hay đẩy ra ngoài sàn.
+export const pushRooms = (
+  moving: CollisionRoom,
+  others: CollisionRoom[],
+  bounds: CollisionBounds,
+  {
+    gap = 0,
+    fixedIds = new Set<string>(),
+  }: { gap?: number; fixedIds?: ReadonlySet<string> } = {}
+): Map<string, { x: number; y: number }> | null => {
+  const current = new Map(others.map((o) => [o.id, { ...o }]));
+  const moved = new Map<string, { x: number; y: number }>();
+  const queue: CollisionRoom[] = [moving];
+  // Chặn vòng lặp đẩy qua đẩy lại
+  let budget = (others.length + 1) * 8;
+
+  while (queue.length) {
+    if (budget-- <= 0) return null;
+    const pusher = queue.shift()!;
+    const zone = withGap(pusher, gap);
+    for (const o of current.values()) {
+      if (o.id === pusher.id || o.id === moving.id || !overlaps(zone, o)) {
+        continue;
+      }
+      if (fixedIds.has(o.id)) return null;
+
+      const dx = o.x - pusher.x,
+        dy = o.y - pusher.y;
+      const needX = (pusher.w + o.w) / 2 + gap - Math.abs(dx);
+      const needY = (pusher.h + o.h) / 2 + gap - Math.abs(dy);
+      if (needX <= needY) o.x += dx < 0 ? -needX : needX;
+      else o.y += dy < 0 ? -needY : needY;
+
+      if (!insideBounds(o, bounds)) return null;
+      moved.set(o.id, { x: o.x, y: o.y });
+      queue.push(o);
+    }
+  }
+  // Chuỗi đẩy có thể dồn ngược một phòng vào phòng đang kéo
+  return collidesWith(moving, [...current.values()], gap) ? null : moved;
+};
@@ -0,0 +1,104 @@
+import type { Edge } from "@/components/FloorForm";
+
+export type Rect = { x: number; y: number; w: number; h: number };
+
+export type DoorSpan = { start: number; end: number };
+
+export type SharedWall = {
+  side: Edge; // cạnh của phòng a tiếp giáp phòng b
+  start: number; // toạ độ thế giới dọc theo cạnh (x với N/S, y với E/W)
+  end: number;
+};
+
+const EPS = 1e-6;
+
+export const oppositeEdge: Record<Edge, Edge> = {
+  N: "S",
+  S: "N",
+  E: "W",
+  W: "E",
+};
+
+export const rectsOverlap = (a: Rect, b: Rect) => {
+  return !(
+    a.x + a.w / 2 <= b.x - b.w / 2 ||
+    a.x - a.w / 2 >= b.x + b.w / 2 ||
+    a.y + a.h / 2 <= b.y - b.h / 2 ||
+    a.y - a.h / 2 >= b.y + b.h / 2
+  );
+};
+
+export const rectBounds = (r: Rect) => ({
+  left: r.x - r.w / 2,
+  right: r.x + r.w / 2,
+  bottom: r.y - r.h / 2,
+  top: r.y + r.h / 2,
+});
+
+// Hai phòng có chung tường khi hai cạnh đối diện cách nhau không quá maxGap
+// (khe tường) và phần chồng dọc theo cạnh dài hơn 0
+export const sharedWall = (
+  a: Rect,
+  b: Rect,
+  maxGap = 0.05
+): SharedWall | null => {
+  const A = rectBounds(a);
+  const B = rectBounds(b);
+  const within = (gap: number) => gap >= -EPS && gap <= maxGap + EPS;
+
+  const candidates: SharedWall[] = [];
+  const spanY = {
+    start: Math.max(A.bottom, B.bottom),
+    end: Math.min(A.top, B.top),
+  };
+  const spanX = {
+    start: Math.max(A.left, B.left),
+    end: Math.min(A.right, B.right),
+  };
+
+  if (within(B.left - A.right)) candidates.push({ side: "E", ...spanY });
+  if (within(A.left - B.right)) candidates.push({ side: "W", ...spanY });
+  if (within(B.bottom - A.top)) candidates.push({ side: "N", ...spanX });
+  if (within(A.bottom - B.top)) candidates.push({ side: "S", ...spanX });
+
+  let best: SharedWall | null = null;
+  for (const c of candidates) {
+    if (c.end - c.start <= EPS) continue;
+    if (!best || c.end - c.start > best.end - best.start) best = c;
+  }
+  return best;
+};
+
+// Vị trí cửa trên cạnh theo toạ độ thế giới — cùng công thức với
+// createWallWithDoorOpening trong Floor2DCanvas
+export const doorSpanOnSide = (
+  room: Rect,
+  door: { side: Edge; width: number; offsetRatio: number }
+): DoorSpan => {
+  const horizontal = door.side === "N" || door.side === "S";
+  const along = horizontal ? room.w : room.h;
+  const doorW = Math.max(0.6, Math.min(door.width, along - 0.05));
+  const maxOff = Math.max(0, along - doorW);
+  const off = Math.max(0, Math.min(1, door.offsetRatio)) * maxOff;
+  const origin = horizontal ? room.x - room.w / 2 : room.y - room.h / 2;
+  return { start: origin + off, end: origin + off + doorW };
+};
+
+// Ngược lại với doorSpanOnSide: từ đoạn cửa (toạ độ thế giới) ra offsetRatio
+export const doorSpecForSpan = (
+  room: Rect,
+  side: Edge,
+  span: DoorSpan
+): { side: Edge; width: number; offsetRatio: number } => {
+  const horizontal = side === "N" || side === "S";
+  const along = horizontal ? room.w : room.h;
+  const origin = horizontal ? room.x - room.w / 2 : room.y - room.h / 2;
+  const width = span.end - span.start;
+  const maxOff = Math.max(0, along - width);
+  const offsetRatio =
+    maxOff > EPS ? Math.max(0, Math.min(1, (span.start - origin) / maxOff)) : 0;
+  return { side, width, offsetRatio };
+};
+
+export const spansOverlap = (a: DoorSpan, b: DoorSpan) =>
+  Math.min(a.end, b.end) - Math.max(a.start, b.start);
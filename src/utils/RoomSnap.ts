@@ -0,0 +1,176 @@
+import { rectBounds, type Rect } from "./RoomGeometry";
+
+// Đường gióng: dọc (x = at) hoặc ngang (y = at), kéo dài từ from tới to
+export type SnapGuide = {
+  vertical: boolean;
+  at: number;
+  from: number;
+  to: number;
+  kind: "edge" | "center";
+};
+
+// Khoảng cách từ phòng đang kéo tới phòng (hoặc tường ngoài) gần nhất theo
+// một hướng, đo trên đoạn (x1, y1) – (x2, y2)
+export type DistanceReadout = {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  distance: number;
+};
+
+export type SnapOptions = {
+  // Khoảng hút tối đa (m)
+  threshold: number;
+  // Bề dày tường trong: hai phòng cách đúng một bề dày là chung tường
+  gap?: number;
+};
+
+const EPS = 1e-6;
+
+type Span = { lo: number; hi: number; center: number };
+
+// Toạ độ các cạnh và tâm của phòng theo trục x (vertical) hoặc y
+const spanOf = (r: Rect, vertical: boolean): Span => {
+  const b = rectBounds(r);
+  return vertical
+    ? { lo: b.left, hi: b.right, center: r.x }
+    : { lo: b.bottom, hi: b.top, center: r.y };
+};
+
+// Các cặp (toạ độ của phòng đang kéo, toạ độ đích) có thể hút vào nhau:
+// thẳng cạnh, thẳng tâm, hoặc áp sát cách một bề dày tường
+const snapPairs = (m: Span, t: Span, gap: number) => {
+  const pairs: Array<[number, number, SnapGuide["kind"]]> = [
+    [m.lo, t.lo, "edge"],
+    [m.lo, t.hi, "edge"],
+    [m.hi, t.lo, "edge"],
+    [m.hi, t.hi, "edge"],
+    [m.center, t.center, "center"],
+  ];
+  if (gap > EPS) {
+    pairs.push([m.hi, t.lo - gap, "edge"], [m.lo, t.hi + gap, "edge"]);
+  }
+  return pairs;
+};
+
+const nearestDelta = (
+  moving: Rect,
+  others: Rect[],
+  vertical: boolean,
+  { threshold, gap = 0 }: SnapOptions
+) => {
+  let best: number | null = null;
+  for (const o of others) {
+    const pairs = snapPairs(spanOf(moving, vertical), spanOf(o, vertical), gap);
+    for (const [from, to] of pairs) {
+      const delta = to - from;
+      if (Math.abs(delta) > threshold) continue;
+      if (best === null || Math.abs(delta) < Math.abs(best)) best = delta;
+    }
+  }
+  return best ?? 0;
+};
+
+// Hút tâm phòng đang kéo để cạnh/tâm của nó thẳng hàng với phòng khác
+export const snapToRooms = (
+  moving: Rect,
+  others: Rect[],
+  options: SnapOptions
+): { x: number; y: number } => ({
+  x: moving.x + nearestDelta(moving, others, true, options),
+  y: moving.y + nearestDelta(moving, others, false, options),
+});
+
+// Hút một cạnh đang kéo giãn (side 1: cạnh phía toạ độ lớn, -1: phía nhỏ)
+// vào cạnh phòng khác; trả về toạ độ mới hoặc null khi không có gì gần
+export const snapEdge = (
+  value: number,
+  others: Rect[],
+  vertical: boolean,
+  side: 1 | -1,
+  { threshold, gap = 0 }: SnapOptions
+): number | null => {
+  let best: number | null = null;
+  for (const o of others) {
+    const t = spanOf(o, vertical);
+    const targets = [t.lo, t.hi];
+    if (gap > EPS) targets.push(side === 1 ? t.lo - gap : t.hi + gap);
+    for (const target of targets) {
+      if (Math.abs(target - value) > threshold) continue;
+      if (best === null || Math.abs(target - value) < Math.abs(best - value)) {
+        best = target;
+      }
+    }
+  }
+  return best;
+};
+
+// Các đường gióng của phòng đang đứng thẳng hàng với phòng khác; các đường
+// cùng toạ độ gộp thành một, kéo dài phủ mọi phòng liên quan
+export const alignmentGuides = (
+  rect: Rect,
+  others: Rect[],
+  gap = 0
+): SnapGuide[] => {
+  const guides = new Map<string, SnapGuide>();
+  for (const vertical of [true, false]) {
+    const m = spanOf(rect, vertical);
+    const across = spanOf(rect, !vertical);
+    for (const o of others) {
+      const oAcross = spanOf(o, !vertical);
+      for (const [from, to, kind] of snapPairs(m, spanOf(o, vertical), gap)) {
+        if (Math.abs(to - from) > EPS) continue;
+        const key = `${vertical ? "V" : "H"}:${from.toFixed(3)}`;
+        const prev = guides.get(key);
+        guides.set(key, {
+          vertical,
+          at: from,
+          from: Math.min(prev?.from ?? Infinity, across.lo, oAcross.lo),
+          to: Math.max(prev?.to ?? -Infinity, across.hi, oAcross.hi),
+          kind: prev?.kind === "edge" ? "edge" : kind,
+        });
+      }
+    }
+  }
+  return [...guides.values()];
+};
+
+// Khoảng trống từ bốn cạnh của phòng tới phòng gần nhất cùng dải (chồng
+// theo chiều vuông góc); không có phòng thì đo tới mép vùng khả dụng
+export const neighbourDistances = (
+  rect: Rect,
+  others: Rect[],
+  bounds: { halfW: number; halfH: number }
+): DistanceReadout[] => {
+  const out: DistanceReadout[] = [];
+  for (const vertical of [true, false]) {
+    const m = spanOf(rect, vertical);
+    const across = spanOf(rect, !vertical);
+    const limit = vertical ? bounds.halfW : bounds.halfH;
+    for (const dir of [1, -1] as const) {
+      const edge = dir === 1 ? m.hi : m.lo;
+      let distance = dir === 1 ? limit - edge : edge + limit;
+      let mid = across.center;
+      for (const o of others) {
+        const t = spanOf(o, vertical);
+        const tAcross = spanOf(o, !vertical);
+        const lo = Math.max(across.lo, tAcross.lo),
+          hi = Math.min(across.hi, tAcross.hi);
+        if (hi - lo <= EPS) continue;
+        const d = dir === 1 ? t.lo - edge : edge - t.hi;
+        if (d < -EPS || d >= distance) continue;
+        distance = d;
+        mid = (lo + hi) / 2;
+      }
+      if (distance <= EPS) continue;
+      const end = edge + dir * distance;
+      out.push(
+        vertical
+          ? { x1: edge, y1: mid, x2: end, y2: mid, distance }
+          : { x1: mid, y1: edge, x2: mid, y2: end, distance }
+      );
+    }
+  }
+  return out;
+};
@@ -0,0 +1,357 @@
+import type { Edge } from "@/components/FloorForm";
+import type { PlacedDoor, RoomDoor } from "./GenerateLayout";
+import { doorSpanOnSide, rectBounds, type Rect } from "./RoomGeometry";
+import {
+  insetPolygon,
+  lineInsideSpans,
+  outlineEdges,
+  rectangleOutline,
+  segmentCrossesRect,
+  type Point,
+} from "./FloorOutline";
+
+// exterior: tường bao của sàn
+// shared:   tường trong có phòng ở cả hai phía (tường chung, chỉ tính một lần)
+// free:     tường trong chỉ có phòng ở một phía (giáp hành lang/chỗ trống)
+export type WallKind = "exterior" | "shared" | "free";
+
+// Ô mở trên trục tường (toạ độ thế giới)
+export type WallOpening = PlacedDoor & { kind: "door" | "mainDoor" };
+
+export type WallNode = { id: string; x: number; y: number };
+
+// Một phần tường đặc: trục từ (x1, y1) tới (x2, y2), bề dày thickness
+export type WallPiece = {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  thickness: number;
+};
+
+export type WallSegment = {
+  id: string;
+  kind: WallKind;
+  // Trục tường (đường tâm) từ nút `from` tới nút `to`
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  from: string;
+  to: string;
+  thickness: number;
+  // Các phòng giáp đoạn tường này
+  rooms: string[];
+  openings: WallOpening[];
+};
+
+export interface WallGraph {
+  nodes: WallNode[];
+  segments: WallSegment[];
+}
+
+export interface WallGraphOptions {
+  exteriorThickness: number;
+  interiorThickness: number;
+}
+
+type WallRoom = Rect & { id: string; rawDoors?: RoomDoor[] };
+
+type Span = { start: number; end: number };
+
+// Một đường tường trong: các đoạn phòng đóng góp, theo phía của phòng
+// (below: phòng nằm phía toạ độ nhỏ hơn trục tường)
+type Line = {
+  horizontal: boolean;
+  at: number;
+  parts: Array<Span & { room: string; below: boolean }>;
+  doors: Span[];
+};
+
+const EPS = 1e-6;
+const KEY_STEP = 1e-3; // trục tường lệch nhau dưới 1mm coi là trùng
+
+const mergeSpans = (spans: Span[]) => {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  const out: Span[] = [];
+  for (const s of sorted) {
+    const last = out[out.length - 1];
+    if (last && s.start <= last.end + EPS) last.end = Math.max(last.end, s.end);
+    else out.push({ ...s });
+  }
+  return out;
+};
+
+// Tường ngoài chạy theo đường bao sàn (trục lùi vào nửa bề dày). Tường bao
+// quanh mỗi phòng nằm ngay ngoài cạnh phòng với bề dày tường trong (giống
+// cách sinh bố cục chừa khe). Hai phòng kề nhau cách đúng một bề dày nên tường
+// của chúng có cùng trục và được gộp thành một đoạn tường chung. Tường N/S
+// kéo dài qua góc để nối kín với tường E/W.
+export const buildWallGraph = (
+  rooms: WallRoom[],
+  floor: {
+    width: number;
+    height: number;
+    // Tầng trên không có cửa chính
+    mainDoor?: PlacedDoor;
+    outline?: Point[];
+  },
+  { exteriorThickness: ext, interiorThickness: t }: WallGraphOptions
+): WallGraph => {
+  const outline = floor.outline ?? rectangleOutline(floor.width, floor.height);
+  const usable = insetPolygon(outline, ext);
+
+  const lines = new Map<string, Line>();
+  const lineFor = (horizontal: boolean, at: number) => {
+    const key = `${horizontal ? "H" : "V"}:${Math.round(at / KEY_STEP)}`;
+    let line = lines.get(key);
+    if (!line) {
+      line = { horizontal, at, parts: [], doors: [] };
+      lines.set(key, line);
+    }
+    return line;
+  };
+
+  for (const room of rooms) {
+    const b = rectBounds(room);
+    const sides: Array<[Edge, boolean, number, Span]> = [
+      ["N", true, b.top + t / 2, { start: b.left - t, end: b.right + t }],
+      ["S", true, b.bottom - t / 2, { start: b.left - t, end: b.right + t }],
+      ["E", false, b.right + t / 2, { start: b.bottom, end: b.top }],
+      ["W", false, b.left - t / 2, { start: b.bottom, end: b.top }],
+    ];
+    for (const [side, horizontal, at, span] of sides) {
+      if (t <= EPS) continue;
+      // Chỉ giữ phần trục nằm trong vùng khả dụng — phần nằm trong dải tường
+      // ngoài đã được tường ngoài thay thế
+      const clipped = lineInsideSpans(usable, horizontal, at)
+        .map((inside) => ({
+          start: Math.max(inside.start, span.start),
+          end: Math.min(inside.end, span.end),
+        }))
+        .filter((c) => c.end - c.start > EPS);
+      if (!clipped.length) continue;
+
+      const line = lineFor(horizontal, at);
+      for (const c of clipped) {
+        line.parts.push({
+          ...c,
+          room: room.id,
+          below: side === "N" || side === "E",
+        });
+      }
+      for (const d of room.rawDoors ?? []) {
+        if (d.side === side) line.doors.push(doorSpanOnSide(room, d));
+      }
+    }
+  }
+
+  const nodes: WallNode[] = [];
+  const nodeIds = new Map<string, string>();
+  const nodeAt = (x: number, y: number) => {
+    const key = `${Math.round(x / KEY_STEP)}:${Math.round(y / KEY_STEP)}`;
+    let id = nodeIds.get(key);
+    if (!id) {
+      id = `node_${nodes.length + 1}`;
+      nodeIds.set(key, id);
+      nodes.push({ id, x, y });
+    }
+    return id;
+  };
+
+  const segments: WallSegment[] = [];
+  const addSegment = (
+    kind: WallKind,
+    p1: Point,
+    p2: Point,
+    thickness: number,
+    roomIds: string[],
+    openings: WallOpening[]
+  ) => {
+    segments.push({
+      id: `wall_${segments.length + 1}`,
+      kind,
+      x1: p1.x,
+      y1: p1.y,
+      x2: p2.x,
+      y2: p2.y,
+      from: nodeAt(p1.x, p1.y),
+      to: nodeAt(p2.x, p2.y),
+      thickness,
+      rooms: roomIds,
+      openings,
+    });
+  };
+  const pushSegment = (
+    kind: WallKind,
+    horizontal: boolean,
+    at: number,
+    span: Span,
+    roomIds: string[],
+    openings: Span[]
+  ) => {
+    const point = (v: number) =>
+      horizontal ? { x: v, y: at } : { x: at, y: v };
+    addSegment(
+      kind,
+      point(span.start),
+      point(span.end),
+      t,
+      roomIds,
+      openings
+        .map((o) => ({
+          start: Math.max(o.start, span.start),
+          end: Math.min(o.end, span.end),
+        }))
+        .filter((o) => o.end - o.start > EPS)
+        .map((o) => {
+          const a = point(o.start),
+            b = point(o.end);
+          return { kind: "door", x1: a.x, y1: a.y, x2: b.x, y2: b.y };
+        })
+    );
+  };
+
+  // Tường ngoài: mỗi cạnh đường bao một đoạn, trục là đường bao lùi vào nửa
+  // bề dày (nối góc vát), cửa chính khoét trên cạnh chứa nó
+  const md = floor.mainDoor;
+  const axis = insetPolygon(outline, ext / 2);
+  const usableEdges = outlineEdges(usable);
+  outlineEdges(outline).forEach((edge, i) => {
+    const p1 = axis[i],
+      p2 = axis[(i + 1) % axis.length];
+    const shift = (p: Point) => ({
+      x: p.x - (edge.normal.x * ext) / 2,
+      y: p.y - (edge.normal.y * ext) / 2,
+    });
+    // Điểm nằm trên cạnh: sát đường thẳng chứa cạnh và trong khoảng hai đỉnh
+    const onEdge = (x: number, y: number) => {
+      const dx = x - edge.a.x,
+        dy = y - edge.a.y;
+      const along =
+        (dx * (edge.b.x - edge.a.x) + dy * (edge.b.y - edge.a.y)) /
+        Math.max(edge.length, EPS);
+      return (
+        Math.abs(dx * edge.normal.x + dy * edge.normal.y) < KEY_STEP &&
+        along > -KEY_STEP &&
+        along < edge.length + KEY_STEP
+      );
+    };
+    const openings: WallOpening[] = [];
+    if (md && onEdge(md.x1, md.y1) && onEdge(md.x2, md.y2)) {
+      const a = shift({ x: md.x1, y: md.y1 }),
+        b = shift({ x: md.x2, y: md.y2 });
+      openings.push({ kind: "mainDoor", x1: a.x, y1: a.y, x2: b.x, y2: b.y });
+    }
+
+    const inner = usableEdges[i];
+    const touching = rooms.filter((r) =>
+      segmentCrossesRect(inner.a, inner.b, {
+        ...r,
+        w: r.w + 2 * (t + KEY_STEP),
+        h: r.h + 2 * (t + KEY_STEP),
+      })
+    );
+    addSegment(
+      "exterior",
+      p1,
+      p2,
+      ext,
+      touching.map((r) => r.id),
+      openings
+    );
+  });
+
+  // Tường trong: chia đường tường tại mọi điểm đầu/cuối của các đoạn, xét
+  // từng khoảng có phòng ở một hay hai phía rồi gộp các khoảng cùng loại
+  for (const line of lines.values()) {
+    const cuts = [...new Set(line.parts.flatMap((p) => [p.start, p.end]))].sort(
+      (a, b) => a - b
+    );
+    const doors = mergeSpans(line.doors);
+
+    let run: { kind: WallKind; span: Span; rooms: Set<string> } | null = null;
+    const flush = () => {
+      if (!run) return;
+      pushSegment(
+        run.kind,
+        line.horizontal,
+        line.at,
+        run.span,
+        [...run.rooms],
+        doors
+      );
+      run = null;
+    };
+
+    for (let k = 0; k + 1 < cuts.length; k++) {
+      const start = cuts[k],
+        end = cuts[k + 1];
+      if (end - start <= EPS) continue;
+      const mid = (start + end) / 2;
+      const here = line.parts.filter((p) => p.start < mid && p.end > mid);
+      if (!here.length) {
+        flush();
+        continue;
+      }
+      const kind: WallKind =
+        here.some((p) => p.below) && here.some((p) => !p.below)
+          ? "shared"
+          : "free";
+      if (run && run.kind === kind && Math.abs(run.span.end - start) < EPS) {
+        run.span.end = end;
+      } else {
+        flush();
+        run = { kind, span: { start, end }, rooms: new Set() };
+      }
+      for (const p of here) run.rooms.add(p.room);
+    }
+    flush();
+  }
+
+  return { nodes, segments };
+};
+
+// Các phần tường đặc của một đoạn sau khi trừ các ô mở — dùng chung cho
+// canvas và các bộ xuất bản vẽ. Tường ngoài kéo dài thêm nửa bề dày ở hai
+// đầu để lấp kín góc.
+export const wallPieces = (segment: WallSegment): WallPiece[] => {
+  const length = Math.hypot(segment.x2 - segment.x1, segment.y2 - segment.y1);
+  if (length <= EPS) return [];
+  const ux = (segment.x2 - segment.x1) / length,
+    uy = (segment.y2 - segment.y1) / length;
+  const along = (x: number, y: number) =>
+    (x - segment.x1) * ux + (y - segment.y1) * uy;
+  const point = (s: number) => ({
+    x: segment.x1 + ux * s,
+    y: segment.y1 + uy * s,
+  });
+  const cap = segment.kind === "exterior" ? segment.thickness / 2 : 0;
+  const start = -cap,
+    end = length + cap;
+  const holes = mergeSpans(
+    segment.openings.map((o) => {
+      const a = along(o.x1, o.y1),
+        b = along(o.x2, o.y2);
+      return { start: Math.min(a, b), end: Math.max(a, b) };
+    })
+  );
+
+  const pieces: WallPiece[] = [];
+  let cursor = start;
+  for (const h of [...holes, { start: end, end }]) {
+    if (h.start - cursor > EPS) {
+      const a = point(cursor),
+        b = point(h.start);
+      pieces.push({
+        x1: a.x,
+        y1: a.y,
+        x2: b.x,
+        y2: b.y,
+        thickness: segment.thickness,
+      });
+    }
+    cursor = Math.max(cursor, h.end);
+  }
+  return pieces;
+};